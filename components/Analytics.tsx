@@ -1,50 +1,18 @@
 import React from "react";
-
-type PossessionFrame = {
-  frame_id: number;
-  team: number | null;
-  time_s: number;
-};
-
-type PossessionData = {
-  series: PossessionFrame[];
-};
-
-type ControlZoneFrame = {
-  frame_id: number;
-  time_s: number;
-  team1_area_pct: number;
-  team2_area_pct: number;
-};
-
-type ControlZoneData = {
-  series: ControlZoneFrame[];
-};
-
-type MomentumFrame = {
-  frame_id: number;
-  time_s: number;
-  team1_momentum: number;
-  team2_momentum: number;
-};
-
-type MomentumData = {
-  series: MomentumFrame[];
-};
-
-const TEAM_COLORS: Record<number, { stroke: string; fill: string }> = {
-  1: { stroke: "rgba(220,38,38,0.9)",  fill: "rgba(220, 38, 38, 0.65)" }, // red-600
-  2: { stroke: "rgba(37,99,235,0.9)",  fill: "rgba(37,99,235,0.65)" }, // blue-600
-};
+import { TEAM_COLORS } from "../lib/teams";
+import type { ControlZoneData, MomentumData, PossessionData } from "../lib/types";
+import ControlZoneChart from "./ControlZoneChart";
+import MomentumChart from "./MomentumChart";
 
 interface AnalyticsProps {
   possessionData: PossessionData | null;
   controlZoneData: ControlZoneData | null;
   momentumData: MomentumData | null;
   currentFrame: number;
+  onSeek: (frame: number) => void;
 }
 
-const Analytics: React.FC<AnalyticsProps> = ({ possessionData, controlZoneData, momentumData, currentFrame }) => {
+const Analytics: React.FC<AnalyticsProps> = ({ possessionData, controlZoneData, momentumData, currentFrame, onSeek }) => {
   const calculatePossessionStats = (currentFrame: number) => {
     if (!possessionData?.series) return { team1: 0, team2: 0, neutral: 0 };
     
@@ -256,6 +224,12 @@ const Analytics: React.FC<AnalyticsProps> = ({ possessionData, controlZoneData,
               <span style={{ color: TEAM_COLORS[1].stroke, fontWeight: "600" }}>Team 1: {controlZoneStats.team1}%</span>
               <span style={{ color: TEAM_COLORS[2].stroke, fontWeight: "600" }}>Team 2: {controlZoneStats.team2}%</span>
             </div>
+            <div style={{ marginTop: "8px" }}>
+              <ControlZoneChart controlZoneData={controlZoneData} currentFrame={currentFrame} onSeek={onSeek} />
+            </div>
+            <p style={{ margin: "4px 0 0 0", fontSize: "11px", color: "#999" }}>
+              Drag across the chart to zoom, click to jump to that moment.
+            </p>
           </div>
         )}
 
@@ -339,6 +313,9 @@ const Analytics: React.FC<AnalyticsProps> = ({ possessionData, controlZoneData,
                 </span>
               </div>
             </div>
+            <div style={{ marginTop: "12px" }}>
+              <MomentumChart momentumData={momentumData} currentFrame={currentFrame} onSeek={onSeek} />
+            </div>
           </div>
         )}
       </div>
@@ -347,4 +324,3 @@ const Analytics: React.FC<AnalyticsProps> = ({ possessionData, controlZoneData,
 };
 
 export default Analytics;
-export type { PossessionData, PossessionFrame, ControlZoneData, ControlZoneFrame, MomentumData, MomentumFrame };
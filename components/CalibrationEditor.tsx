@@ -0,0 +1,220 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { estimateHomography, invert3x3, projectPitchToImage, reprojectionErrors, type Correspondence } from "../lib/homography";
+import { PITCH_POINT_NAMES, type PitchPointName } from "../lib/pitch";
+import type { HomographySegment } from "../lib/types";
+
+const PLACED = "rgba(250, 204, 21, 0.95)"; // yellow-400
+const GUESS = "rgba(255, 255, 255, 0.8)";
+const GOOD_PX = 3; // reprojection error that counts as a good fit
+const HIT_PX = 10;
+
+interface CalibrationEditorProps {
+  videoWidth: number; // intrinsic video size; all points are kept in these pixels
+  videoHeight: number;
+  frame: number;
+  keypoints: Record<PitchPointName, [number, number]>; // pitch metres
+  seed: HomographySegment | null; // calibration in use at this frame, if any
+  defaultRange: [number, number];
+  hasManual: boolean; // a hand-made segment already covers this frame
+  onDraft: (segment: HomographySegment | null) => void;
+  onSave: (segment: HomographySegment) => void;
+  onRevert: () => void;
+  onClose: () => void;
+}
+
+// Calibration mode drawn over the paused video. Drag the projected pitch points
+// onto the real markings, or click the image and name the point; four or more
+// placed points give a new H, previewed live through onDraft.
+const CalibrationEditor: React.FC<CalibrationEditorProps> = ({
+  videoWidth, videoHeight, frame, keypoints, seed, defaultRange, hasManual, onDraft, onSave, onRevert, onClose,
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [placed, setPlaced] = useState<Partial<Record<PitchPointName, [number, number]>>>({});
+  const [dragging, setDragging] = useState<PitchPointName | null>(null);
+  const [picking, setPicking] = useState<{ x: number; y: number } | null>(null);
+  const [range, setRange] = useState<[number, number]>(defaultRange);
+  const [scale, setScale] = useState(1); // video pixels per screen pixel
+
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const ro = new ResizeObserver(() => setScale(videoWidth / (svg.clientWidth || videoWidth)));
+    ro.observe(svg);
+    return () => ro.disconnect();
+  }, [videoWidth]);
+
+  const pairs: (Correspondence & { name: PitchPointName })[] = PITCH_POINT_NAMES
+    .filter(name => placed[name])
+    .map(name => ({ name, img: placed[name]!, pitch: keypoints[name] }));
+
+  const draftH = useMemo(() => estimateHomography(pairs), [placed, keypoints]);
+  const fit = draftH ? reprojectionErrors(draftH, pairs) : null;
+
+  const draft: HomographySegment | null = useMemo(() => draftH && {
+    frame_start: Math.min(range[0], range[1]),
+    frame_end: Math.max(range[0], range[1]),
+    H: draftH,
+    keypoints_img: pairs.map(p => ({ name: p.name, x: p.img[0], y: p.img[1] })),
+  }, [draftH, range[0], range[1]]);
+
+  useEffect(() => onDraft(draft), [draft]);
+
+  useEffect(() => () => onDraft(null), []);
+
+  // Unplaced points follow the draft (or the existing calibration) so they start near their marking
+  const guessHinv = useMemo(() => {
+    const H = draftH || seed?.H;
+    return H?.length ? invert3x3(H) : null;
+  }, [draftH, seed]);
+  const guesses = PITCH_POINT_NAMES.flatMap(name => {
+    if (placed[name] || !guessHinv) return [];
+    const [X, Y] = keypoints[name];
+    const p = projectPitchToImage(guessHinv, X, Y);
+    if (!p || p.x < 0 || p.y < 0 || p.x > videoWidth || p.y > videoHeight) return [];
+    return [{ name, x: p.x, y: p.y }];
+  });
+
+  const toVideo = (e: React.PointerEvent | React.MouseEvent): [number, number] => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return [
+      ((e.clientX - rect.left) / rect.width) * videoWidth,
+      ((e.clientY - rect.top) / rect.height) * videoHeight,
+    ];
+  };
+
+  const pointAt = ([x, y]: [number, number]) => {
+    const r = HIT_PX * scale;
+    const near = (px: number, py: number) => Math.hypot(px - x, py - y) <= r;
+    return pairs.find(p => near(p.img[0], p.img[1]))?.name || guesses.find(g => near(g.x, g.y))?.name || null;
+  };
+
+  const place = (name: PitchPointName, at: [number, number]) => setPlaced(prev => ({ ...prev, [name]: at }));
+  const unplace = (name: PitchPointName) => setPlaced(prev => {
+    const next = { ...prev };
+    delete next[name];
+    return next;
+  });
+
+  const r = 5 * scale;
+  const fontSize = 12 * scale;
+  const errorOf = (name: PitchPointName) => fit?.errors[pairs.findIndex(p => p.name === name)];
+  const unplacedNames = PITCH_POINT_NAMES.filter(name => !placed[name]);
+
+  return (
+    <div
+      style={{ position: "absolute", inset: 0 }}
+      onClick={e => e.stopPropagation()}
+      onMouseMove={e => e.stopPropagation()}
+    >
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${videoWidth} ${videoHeight}`}
+        preserveAspectRatio="none"
+        style={{ position: "absolute", inset: 0, width: "100%", height: "100%", cursor: dragging ? "grabbing" : "crosshair", touchAction: "none" }}
+        onPointerDown={e => {
+          if (e.button !== 0) return;
+          const at = toVideo(e);
+          const name = pointAt(at);
+          if (name) {
+            e.currentTarget.setPointerCapture(e.pointerId);
+            setDragging(name);
+            setPicking(null);
+            place(name, at);
+          } else {
+            setPicking({ x: at[0], y: at[1] });
+          }
+        }}
+        onPointerMove={e => { if (dragging) place(dragging, toVideo(e)); }}
+        onPointerUp={() => setDragging(null)}
+        onContextMenu={e => {
+          e.preventDefault();
+          const name = pointAt(toVideo(e));
+          if (name && placed[name]) unplace(name);
+        }}
+      >
+        {guesses.map(g => (
+          <g key={g.name}>
+            <circle cx={g.x} cy={g.y} r={r} fill="none" stroke={GUESS} strokeWidth={1.5 * scale} />
+            <text x={g.x + r * 1.5} y={g.y - r} fontSize={fontSize} fill={GUESS}>{g.name}</text>
+          </g>
+        ))}
+        {pairs.map(p => {
+          const err = errorOf(p.name);
+          return (
+            <g key={p.name}>
+              <circle cx={p.img[0]} cy={p.img[1]} r={r} fill={PLACED} stroke="black" strokeWidth={scale} />
+              <text x={p.img[0] + r * 1.5} y={p.img[1] - r} fontSize={fontSize} fill={PLACED} stroke="black" strokeWidth={0.3 * scale}>
+                {p.name}{err !== undefined ? ` (${err.toFixed(1)} px)` : ""}
+              </text>
+            </g>
+          );
+        })}
+        {picking && <circle cx={picking.x} cy={picking.y} r={r} fill="none" stroke={PLACED} strokeDasharray={`${2 * scale} ${2 * scale}`} />}
+      </svg>
+
+      {picking && (
+        <select
+          autoFocus
+          value=""
+          onChange={e => {
+            place(e.target.value as PitchPointName, [picking.x, picking.y]);
+            setPicking(null);
+          }}
+          onBlur={() => setPicking(null)}
+          style={{
+            position: "absolute",
+            left: `${(picking.x / videoWidth) * 100}%`,
+            top: `${(picking.y / videoHeight) * 100}%`,
+            transform: "translate(8px, 8px)",
+            fontSize: "12px",
+          }}
+        >
+          <option value="" disabled>Which pitch point is this?</option>
+          {unplacedNames.map(name => <option key={name} value={name}>{name}</option>)}
+        </select>
+      )}
+
+      <div style={{
+        position: "absolute",
+        top: 8,
+        left: 8,
+        padding: "8px 10px",
+        backgroundColor: "rgba(17, 24, 39, 0.85)",
+        color: "white",
+        fontSize: "12px",
+        borderRadius: 4,
+        display: "flex",
+        flexDirection: "column",
+        gap: 6,
+        maxWidth: 320
+      }}>
+        <strong>Calibrating frame {frame}</strong>
+        <span style={{ color: "#d1d5db" }}>
+          Drag points onto the pitch markings or click a marking to name it. Right-click a point to remove it.
+        </span>
+        <span>
+          {pairs.length} point{pairs.length === 1 ? "" : "s"} placed
+          {pairs.length < 4 && ` · ${4 - pairs.length} more needed`}
+          {pairs.length >= 4 && !draftH && " · points are degenerate (collinear?)"}
+          {fit && (
+            <> · RMS error <b style={{ color: fit.rms <= GOOD_PX ? "#4ade80" : "#fbbf24" }}>{fit.rms.toFixed(1)} px</b></>
+          )}
+        </span>
+        <label>
+          Frames{" "}
+          <input type="number" value={range[0]} onChange={e => setRange([Number(e.target.value), range[1]])} style={{ width: 70 }} />
+          {" – "}
+          <input type="number" value={range[1]} onChange={e => setRange([range[0], Number(e.target.value)])} style={{ width: 70 }} />
+        </label>
+        <div style={{ display: "flex", gap: 6, flexWrap: "wrap" }}>
+          <button disabled={!draft} onClick={() => draft && onSave(draft)}>Save</button>
+          <button onClick={() => setPlaced({})} disabled={!pairs.length}>Clear points</button>
+          {hasManual && <button onClick={onRevert}>Revert to automatic</button>}
+          <button onClick={onClose}>Cancel</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CalibrationEditor;
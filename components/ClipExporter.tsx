@@ -0,0 +1,139 @@
+import React, { useEffect, useRef, useState } from "react";
+import { MAX_CLIP_S, clipSupported, exportClip } from "../lib/clipExport";
+import { fileSlug, formatBytes, formatClock } from "../lib/format";
+
+type Props = {
+  videoRef: React.RefObject<HTMLVideoElement>;
+  overlayRef: React.RefObject<HTMLCanvasElement>;
+  radarRef: React.RefObject<HTMLCanvasElement>;
+  drawOverlay: (mediaTime: number) => void;
+  recordingRef: React.MutableRefObject<boolean>; // true while the exporter drives the overlay instead of the page
+  title: string;
+  layers: string[]; // overlay layers currently switched on, shown so the user knows what gets recorded
+};
+
+type Result = { url: string; name: string; size: number };
+
+const smallButton: React.CSSProperties = { padding: "2px 8px", fontSize: "12px", cursor: "pointer" };
+const inputStyle: React.CSSProperties = { width: 72, padding: "0.2rem", border: "1px solid #ccc", borderRadius: "4px" };
+
+// In/out range of the match video exported as WebM with the overlays drawn in
+const ClipExporter: React.FC<Props> = ({ videoRef, overlayRef, radarRef, drawOverlay, recordingRef, title, layers }) => {
+  const [start, setStart] = useState<number | null>(null);
+  const [end, setEnd] = useState<number | null>(null);
+  const [withRadar, setWithRadar] = useState(true);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState("");
+  const [result, setResult] = useState<Result | null>(null);
+  const [supported, setSupported] = useState(true);
+  const abort = useRef<AbortController | null>(null);
+
+  useEffect(() => { setSupported(clipSupported()); }, []);
+  useEffect(() => () => abort.current?.abort(), []);
+  // Each new clip (and leaving the page) frees the previous one
+  useEffect(() => () => { if (result) URL.revokeObjectURL(result.url); }, [result]);
+
+  const now = () => Math.round((videoRef.current?.currentTime || 0) * 10) / 10;
+  const length = start !== null && end !== null ? end - start : 0;
+  const invalid = start === null || end === null
+    ? "Set an in and an out point"
+    : length <= 0
+      ? "The out point must be after the in point"
+      : length > MAX_CLIP_S
+        ? `Clips are limited to ${MAX_CLIP_S / 60} minutes`
+        : "";
+
+  const run = async () => {
+    const video = videoRef.current;
+    const overlay = overlayRef.current;
+    if (!video || !overlay || start === null || end === null) return;
+    const controller = new AbortController();
+    abort.current = controller;
+    setError("");
+    setResult(null);
+    setProgress(0);
+    recordingRef.current = true;
+    try {
+      const clip = await exportClip({
+        video,
+        overlay,
+        radar: withRadar ? radarRef.current : null,
+        drawOverlay,
+        start,
+        end,
+        onProgress: setProgress,
+        signal: controller.signal,
+      });
+      setResult({
+        url: URL.createObjectURL(clip.blob),
+        name: `${fileSlug(title)}-${formatClock(start).replace(":", "m")}s.webm`,
+        size: clip.blob.size,
+      });
+    } catch (e) {
+      if ((e as Error)?.name !== "AbortError") setError(e instanceof Error ? e.message : "Export failed");
+    } finally {
+      recordingRef.current = false;
+      drawOverlay(video.currentTime); // back to the player's frame
+      if (abort.current === controller) abort.current = null;
+      setProgress(null);
+    }
+  };
+
+  const exporting = progress !== null;
+
+  return (
+    <details style={{ marginTop: 12, fontSize: "14px" }}>
+      <summary style={{ cursor: "pointer" }}>Export clip</summary>
+      {!supported ? (
+        <p style={{ color: "#666" }}>This browser can't record video from a canvas.</p>
+      ) : (
+        <div style={{ marginTop: 8 }}>
+          <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+            In
+            <input type="number" min={0} step={0.1} value={start ?? ""} disabled={exporting} style={inputStyle}
+              onChange={e => setStart(e.target.value === "" ? null : Number(e.target.value))} />
+            <button style={smallButton} disabled={exporting} onClick={() => setStart(now())}>Set to playhead</button>
+            Out
+            <input type="number" min={0} step={0.1} value={end ?? ""} disabled={exporting} style={inputStyle}
+              onChange={e => setEnd(e.target.value === "" ? null : Number(e.target.value))} />
+            <button style={smallButton} disabled={exporting} onClick={() => setEnd(now())}>Set to playhead</button>
+            {length > 0 && <span style={{ color: "#666" }}>{formatClock(start!)}–{formatClock(end!)} ({length.toFixed(1)} s)</span>}
+          </div>
+
+          <div style={{ display: "flex", gap: 12, alignItems: "center", marginTop: 8 }}>
+            <label style={{ display: "flex", alignItems: "center", gap: 6, cursor: "pointer" }}>
+              <input type="checkbox" checked={withRadar} disabled={exporting} onChange={e => setWithRadar(e.target.checked)} />
+              Include radar
+            </label>
+            <span style={{ color: "#666", fontSize: "12px" }}>
+              Overlay: {layers.length ? layers.join(", ") : "none"} (uses the toggles above)
+            </span>
+          </div>
+
+          <div style={{ display: "flex", gap: 8, alignItems: "center", marginTop: 8 }}>
+            {exporting ? (
+              <>
+                <progress value={progress} max={1} style={{ width: 200 }} />
+                <span>{Math.round(progress * 100)}%</span>
+                <button style={smallButton} onClick={() => abort.current?.abort()}>Cancel</button>
+              </>
+            ) : (
+              <button style={smallButton} disabled={!!invalid} title={invalid || undefined} onClick={run}>Export WebM</button>
+            )}
+            {result && !exporting && (
+              <a href={result.url} download={result.name}>Download {result.name} ({formatBytes(result.size)})</a>
+            )}
+          </div>
+          {exporting && (
+            <p style={{ margin: "6px 0 0", color: "#666", fontSize: "12px" }}>
+              The clip records in real time; keep this tab visible. Playing or seeking the player stops the export.
+            </p>
+          )}
+          {error && <p style={{ margin: "6px 0 0", color: "#dc2626" }}>{error}</p>}
+        </div>
+      )}
+    </details>
+  );
+};
+
+export default ClipExporter;
@@ -0,0 +1,71 @@
+import React from "react";
+import { decimate, sampleAt, sliceFrames } from "../lib/series";
+import { TEAM_COLORS } from "../lib/teams";
+import type { ControlZoneData, ControlZoneFrame } from "../lib/types";
+import TimeChart, { type ChartScales } from "./TimeChart";
+
+interface ControlZoneChartProps {
+  controlZoneData: ControlZoneData;
+  currentFrame: number;
+  onSeek: (frame: number) => void;
+}
+
+// Team 1's share normalised so the two areas always stack to exactly 100%
+const share1 = (f: ControlZoneFrame) => {
+  const total = f.team1_area_pct + f.team2_area_pct;
+  return total > 0 ? (f.team1_area_pct / total) * 100 : 50;
+};
+
+const renderSeries = (series: ControlZoneFrame[], s: ChartScales) => {
+  const points = decimate(sliceFrames(series, s.view[0], s.view[1]), Math.max(2, (s.right - s.left) * 2));
+  if (points.length < 2) return null;
+  const line = points.map(f => `${s.x(f.frame_id)},${s.y(share1(f))}`).join(" L");
+  const x0 = s.x(points[0].frame_id);
+  const x1 = s.x(points[points.length - 1].frame_id);
+  return (
+    <>
+      {/* Team 2 fills the whole band; team 1 is stacked from the bottom on top of it */}
+      <path d={`M${x0},${s.y(100)} L${x1},${s.y(100)} L${x1},${s.y(0)} L${x0},${s.y(0)} Z`} fill={TEAM_COLORS[2].fill} />
+      <path d={`M${x0},${s.y(0)} L${line} L${x1},${s.y(0)} Z`} fill={TEAM_COLORS[1].fill} />
+      <path d={`M${line}`} fill="none" stroke="white" strokeWidth={1} />
+      <line x1={s.left} x2={s.right} y1={s.y(50)} y2={s.y(50)} stroke="rgba(255,255,255,0.6)" strokeDasharray="4 4" />
+    </>
+  );
+};
+
+// 100% stacked area of controlled pitch share over the match
+const ControlZoneChart: React.FC<ControlZoneChartProps> = ({ controlZoneData, currentFrame, onSeek }) => {
+  const series = controlZoneData.series;
+  if (series.length < 2) return null;
+  const first = series[0];
+  const last = series[series.length - 1];
+  const secPerFrame = (last.time_s - first.time_s) / Math.max(1, last.frame_id - first.frame_id);
+
+  return (
+    <TimeChart
+      data={series}
+      domain={[first.frame_id, last.frame_id]}
+      yDomain={[0, 100]}
+      yTicks={[0, 25, 50, 75, 100]}
+      yFormat={v => `${v}%`}
+      currentFrame={currentFrame}
+      timeAt={f => first.time_s + (f - first.frame_id) * secPerFrame}
+      onSeek={onSeek}
+      renderSeries={renderSeries}
+      renderReadout={frame => {
+        const f = sampleAt(series, frame);
+        if (!f) return "no data";
+        const t1 = share1(f);
+        return (
+          <>
+            <span style={{ color: "#fca5a5" }}>Team 1 {t1.toFixed(1)}%</span>
+            {" · "}
+            <span style={{ color: "#93c5fd" }}>Team 2 {(100 - t1).toFixed(1)}%</span>
+          </>
+        );
+      }}
+    />
+  );
+};
+
+export default ControlZoneChart;
@@ -0,0 +1,149 @@
+import React, { useMemo, useState } from "react";
+import {
+  detectionClasses,
+  downloadFile,
+  motLines,
+  positionLines,
+  seriesCsvLines,
+  seriesInRange,
+  seriesJson,
+  type ExportFilter,
+  type SeriesKind,
+} from "../lib/dataExport";
+import type { DetectionStore } from "../lib/detectionStore";
+import { fileSlug } from "../lib/format";
+import type { HomographyTimeline } from "../lib/homographyTimeline";
+import type { ControlZoneData, MomentumData, PossessionData } from "../lib/types";
+
+type Props = {
+  matchId: number;
+  title: string;
+  store: DetectionStore;
+  tracksMap: Record<number, number>; // with manual team corrections applied
+  timeline: HomographyTimeline; // saved calibration
+  fps: number;
+  frameOffset: number;
+  currentFrame: number;
+  possessionData: PossessionData | null;
+  controlZoneData: ControlZoneData | null;
+  momentumData: MomentumData | null;
+};
+
+const SERIES_LABELS: Record<SeriesKind, string> = {
+  possession: "Possession",
+  control_zones: "Control zones",
+  momentum: "Momentum",
+};
+
+const smallButton: React.CSSProperties = { padding: "2px 8px", fontSize: "12px", cursor: "pointer" };
+const inputStyle: React.CSSProperties = { width: 80, padding: "0.2rem", border: "1px solid #ccc", borderRadius: "4px" };
+
+// Downloads of the match's detections, positions and analytics for use outside the app
+const DataExport: React.FC<Props> = props => {
+  const { matchId, title, store, tracksMap, timeline, fps, frameOffset, currentFrame } = props;
+  const [from, setFrom] = useState<number | null>(null);
+  const [to, setTo] = useState<number | null>(null);
+  const [excluded, setExcluded] = useState<string[]>([]);
+  const [format, setFormat] = useState<"csv" | "json">("csv");
+  const [note, setNote] = useState("");
+
+  const classes = useMemo(() => detectionClasses(store), [store]);
+  const filter: ExportFilter = {
+    from,
+    to,
+    classes: excluded.length ? classes.filter(c => !excluded.includes(c)) : null,
+  };
+  const series: Record<SeriesKind, { frame_id: number }[]> = {
+    possession: props.possessionData?.series || [],
+    control_zones: props.controlZoneData?.series || [],
+    momentum: props.momentumData?.series || [],
+  };
+
+  const base = `${fileSlug(title)}-${matchId}${from !== null || to !== null ? `-f${from ?? "start"}-${to ?? "end"}` : ""}`;
+  const rangeError = from !== null && to !== null && from > to ? "The first frame must not be after the last" : "";
+
+  const save = (name: string, lines: string[], type: string, rows: number) => {
+    downloadFile(name, lines, type);
+    setNote(`Saved ${name} (${rows} rows)`);
+  };
+
+  const exportDetections = () => {
+    const lines = motLines(store, filter);
+    save(`${base}-detections.txt`, lines, "text/plain", lines.length);
+  };
+  const exportPositions = () => {
+    const lines = positionLines(store, tracksMap, timeline, fps, frameOffset, filter);
+    save(`${base}-positions.csv`, lines, "text/csv", lines.length - 1);
+  };
+  const exportSeries = (kind: SeriesKind) => {
+    if (format === "json") {
+      const rows = seriesInRange(series[kind], filter).length;
+      save(`${base}-${kind}.json`, [seriesJson(kind, matchId, series[kind], filter)], "application/json", rows);
+    } else {
+      const lines = seriesCsvLines(series[kind], filter);
+      save(`${base}-${kind}.csv`, lines, "text/csv", lines.length - 1);
+    }
+  };
+
+  const numberOrNull = (v: string) => (v === "" ? null : Math.max(0, Math.round(Number(v))));
+
+  return (
+    <details style={{ marginTop: 12, fontSize: "14px" }}>
+      <summary style={{ cursor: "pointer" }}>Export data</summary>
+      <div style={{ marginTop: 8 }}>
+        <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+          Frames
+          <input type="number" min={0} placeholder={String(store.size ? store.firstFrame : 0)} value={from ?? ""} style={inputStyle}
+            onChange={e => setFrom(numberOrNull(e.target.value))} />
+          <button style={smallButton} onClick={() => setFrom(currentFrame)}>From playhead</button>
+          to
+          <input type="number" min={0} placeholder={store.size ? String(store.lastFrame) : "end"} value={to ?? ""} style={inputStyle}
+            onChange={e => setTo(numberOrNull(e.target.value))} />
+          <button style={smallButton} onClick={() => setTo(currentFrame)}>To playhead</button>
+          {(from !== null || to !== null) && <button style={smallButton} onClick={() => { setFrom(null); setTo(null); }}>Whole match</button>}
+        </div>
+        {rangeError && <p style={{ margin: "6px 0 0", color: "#dc2626" }}>{rangeError}</p>}
+
+        {classes.length > 0 && (
+          <div style={{ display: "flex", gap: 12, alignItems: "center", flexWrap: "wrap", marginTop: 8 }}>
+            Classes
+            {classes.map(c => (
+              <label key={c} style={{ display: "flex", alignItems: "center", gap: 4, cursor: "pointer" }}>
+                <input
+                  type="checkbox"
+                  checked={!excluded.includes(c)}
+                  onChange={e => setExcluded(e.target.checked ? excluded.filter(x => x !== c) : [...excluded, c])}
+                />
+                {c}
+              </label>
+            ))}
+          </div>
+        )}
+
+        <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap", marginTop: 8 }}>
+          <button style={smallButton} disabled={!store.size || !!rangeError} onClick={exportDetections}>Detections (MOT)</button>
+          <button style={smallButton} disabled={!store.size || !!rangeError} onClick={exportPositions}>Pitch positions (CSV)</button>
+        </div>
+
+        <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap", marginTop: 8 }}>
+          Analytics as
+          <select value={format} onChange={e => setFormat(e.target.value as "csv" | "json")}>
+            <option value="csv">CSV</option>
+            <option value="json">JSON</option>
+          </select>
+          {(Object.keys(SERIES_LABELS) as SeriesKind[]).map(kind => (
+            <button key={kind} style={smallButton} disabled={!series[kind].length || !!rangeError} onClick={() => exportSeries(kind)}>
+              {SERIES_LABELS[kind]}
+            </button>
+          ))}
+        </div>
+        <p style={{ margin: "6px 0 0", color: "#666", fontSize: "12px" }}>
+          The class filter applies to detections and positions; the frame range to everything. Positions use the saved calibration and team corrections.
+        </p>
+        {note && <p style={{ margin: "6px 0 0", color: "#16a34a", fontSize: "12px" }}>{note}</p>}
+      </div>
+    </details>
+  );
+};
+
+export default DataExport;
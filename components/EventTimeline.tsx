@@ -0,0 +1,95 @@
+import React from "react";
+import { formatClock } from "../lib/format";
+import { EVENT_COLORS, EVENT_LEAD_S, EVENT_TYPES, filterEvents, type EventFilter, type MatchEvent, type MatchEventType } from "../lib/matchEvents";
+import { TEAM_COLORS } from "../lib/teams";
+import { timeAtFrame } from "../lib/videoFrames";
+
+type Props = {
+  events: MatchEvent[]; // all derived events; the filter is applied here
+  filter: EventFilter;
+  onFilterChange: (filter: EventFilter) => void;
+  fps: number;
+  frameOffset: number;
+  currentFrame: number;
+  onSeek: (frame: number) => void;
+};
+
+const smallButton: React.CSSProperties = { padding: "2px 8px", fontSize: "12px", cursor: "pointer" };
+
+// Filterable list of derived match events; clicking one jumps to just before it
+const EventTimeline: React.FC<Props> = ({ events, filter, onFilterChange, fps, frameOffset, currentFrame, onSeek }) => {
+  const counts: Partial<Record<MatchEventType, number>> = {};
+  for (const e of events) {
+    if (filter.team === null || e.team === filter.team) counts[e.type] = (counts[e.type] || 0) + 1;
+  }
+  const shown = filterEvents(events, filter);
+  // The latest event at or before the playhead
+  let currentIdx = -1;
+  shown.forEach((e, i) => { if (e.frame <= currentFrame) currentIdx = i; });
+
+  const toggle = (type: MatchEventType) => onFilterChange({
+    ...filter,
+    types: filter.types.includes(type) ? filter.types.filter(t => t !== type) : [...filter.types, type],
+  });
+
+  return (
+    <div>
+      <h3 style={{ margin: "0 0 8px 0" }}>Match events</h3>
+      <div style={{ display: "flex", flexWrap: "wrap", gap: 12, alignItems: "center", marginBottom: 8, fontSize: "13px" }}>
+        {(Object.keys(EVENT_TYPES) as MatchEventType[]).map(type => (
+          <label key={type} style={{ display: "inline-flex", alignItems: "center", gap: 4, cursor: "pointer" }}>
+            <input type="checkbox" checked={filter.types.includes(type)} onChange={() => toggle(type)} />
+            <i style={{ width: 10, height: 10, background: EVENT_COLORS[type], display: "inline-block", borderRadius: 2 }} />
+            {EVENT_TYPES[type]} ({counts[type] || 0})
+          </label>
+        ))}
+        <select
+          value={filter.team ?? ""}
+          onChange={e => onFilterChange({ ...filter, team: e.target.value ? Number(e.target.value) : null })}
+        >
+          <option value="">Both teams</option>
+          <option value="1">Team 1</option>
+          <option value="2">Team 2</option>
+        </select>
+      </div>
+
+      {events.length === 0 ? (
+        <p style={{ color: "#666", fontSize: "13px" }}>No events found. They need possession analytics and a calibrated pitch.</p>
+      ) : shown.length === 0 ? (
+        <p style={{ color: "#666", fontSize: "13px" }}>No events match the filter.</p>
+      ) : (
+        <ul style={{ listStyle: "none", padding: 0, margin: 0, maxHeight: 240, overflowY: "auto", border: "1px solid #e5e7eb", borderRadius: 4 }}>
+          {shown.map((e, i) => (
+            <li
+              key={`${e.type}-${e.frame}`}
+              style={{
+                display: "flex",
+                gap: 8,
+                alignItems: "center",
+                padding: "4px 8px",
+                fontSize: "13px",
+                borderBottom: "1px solid #f3f4f6",
+                backgroundColor: i === currentIdx ? "#f3f4f6" : undefined
+              }}
+            >
+              <i style={{ width: 4, alignSelf: "stretch", background: EVENT_COLORS[e.type], borderRadius: 2 }} />
+              <span style={{ width: 44, fontVariantNumeric: "tabular-nums", color: "#666" }}>
+                {formatClock(timeAtFrame(e.frame, fps, frameOffset))}
+              </span>
+              <span style={{ flex: 1, color: e.team ? TEAM_COLORS[e.team]?.stroke : undefined }}>{e.label}</span>
+              <button
+                style={smallButton}
+                title={`Play from ${EVENT_LEAD_S} s before`}
+                onClick={() => onSeek(e.frame - Math.round(EVENT_LEAD_S * fps))}
+              >
+                Jump
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default EventTimeline;
@@ -0,0 +1,142 @@
+import Link from "next/link";
+import React, { useEffect, useState } from "react";
+import { getJobTracker, isSettled, type JobPhase, type TrackedJob } from "../lib/jobTracker";
+
+type Props = {
+  limit?: number; // show only the newest jobs, with a link to the full list
+};
+
+const PHASE_LABELS: Record<JobPhase, string> = {
+  queued: "Queued",
+  running: "Running",
+  analytics: "Running analytics",
+  done: "Done",
+  failed: "Failed",
+  canceled: "Canceled",
+};
+
+const PHASE_COLORS: Record<JobPhase, string> = {
+  queued: "#6b7280",
+  running: "#0070f3",
+  analytics: "#0070f3",
+  done: "#16a34a",
+  failed: "#dc2626",
+  canceled: "#6b7280",
+};
+
+const smallButton: React.CSSProperties = { padding: "2px 8px", fontSize: "12px", cursor: "pointer" };
+
+// Backend timestamps first; jobs saved by older builds may have neither
+function startedAt(job: TrackedJob) {
+  const iso = job.status?.started_at || job.status?.enqueued_at;
+  const t = iso ? Date.parse(iso) : job.created_at;
+  return t ? new Date(t).toLocaleString() : null;
+}
+
+// Every pipeline job saved in this browser with its live status and actions.
+// Tracking runs in lib/jobTracker, so jobs keep progressing on any page.
+const JobsPanel: React.FC<Props> = ({ limit }) => {
+  const [jobs, setJobs] = useState<TrackedJob[]>([]);
+  const [busy, setBusy] = useState<Record<string, boolean>>({});
+
+  useEffect(() => {
+    const tracker = getJobTracker();
+    setJobs(tracker.jobs());
+    return tracker.subscribe(setJobs);
+  }, []);
+
+  const act = async (jobId: string, action: () => Promise<void>) => {
+    setBusy(prev => ({ ...prev, [jobId]: true }));
+    try { await action(); } finally { setBusy(prev => ({ ...prev, [jobId]: false })); }
+  };
+
+  const newest = [...jobs].reverse();
+  const shown = limit ? newest.slice(0, limit) : newest;
+  const finished = jobs.filter(j => j.phase === "done");
+
+  if (!jobs.length) return <p style={{ color: "#666", fontSize: "14px" }}>No pipeline jobs.</p>;
+
+  return (
+    <div>
+      <ul style={{ listStyle: "none", padding: 0, margin: 0 }}>
+        {shown.map(job => {
+          const tracker = getJobTracker();
+          const s = job.status;
+          const pct = typeof s?.progress === "number" ? s.progress : 0;
+          const active = job.phase === "queued" || job.phase === "running";
+          const failure = s?.status === "failed" ? s.exc || "Job failed" : job.analytics_error;
+          const started = startedAt(job);
+          return (
+            <li key={job.job_id} style={{ padding: "0.75rem", marginBottom: "0.5rem", border: "1px solid #e5e7eb", borderRadius: "4px" }}>
+              <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 8 }}>
+                <div>
+                  <Link href={`/match/${job.match_id}`}><strong>{job.title}</strong></Link>{" "}
+                  <span style={{ color: "#666", fontSize: "12px" }}>match #{job.match_id}</span>{" "}
+                  <span style={{ fontSize: "12px", fontWeight: 600, color: PHASE_COLORS[job.phase] }}>{PHASE_LABELS[job.phase]}</span>
+                </div>
+                <div style={{ display: "flex", gap: 6 }}>
+                  {active && (
+                    <button style={smallButton} disabled={busy[job.job_id]} onClick={() => act(job.job_id, () => tracker.cancel(job.job_id))}>
+                      Cancel
+                    </button>
+                  )}
+                  {(job.phase === "failed" || job.phase === "canceled") && !job.analytics && (
+                    <button style={smallButton} disabled={busy[job.job_id]} onClick={() => act(job.job_id, () => tracker.reenqueue(job.job_id))}>
+                      Re-enqueue
+                    </button>
+                  )}
+                  {(job.analytics === "failed" || job.analytics === "done") && (
+                    <button style={smallButton} disabled={busy[job.job_id]} onClick={() => act(job.job_id, () => tracker.retryAnalytics(job.job_id))}>
+                      Retry analytics
+                    </button>
+                  )}
+                  {job.stalled && <button style={smallButton} onClick={() => tracker.recheck(job.job_id)}>Check again</button>}
+                  {(isSettled(job.phase) || (!s && job.error)) && (
+                    <button style={smallButton} onClick={() => tracker.dismiss(job.job_id)}>Dismiss</button>
+                  )}
+                </div>
+              </div>
+
+              {active && (
+                <div style={{ height: 6, marginTop: 6, backgroundColor: "#e5e7eb", borderRadius: 3, overflow: "hidden" }}>
+                  <div style={{ width: `${pct}%`, height: "100%", backgroundColor: PHASE_COLORS[job.phase], transition: "width 0.2s" }} />
+                </div>
+              )}
+
+              <div style={{ marginTop: 4, fontSize: "12px", color: "#555" }}>
+                {active && <>{pct}%{s?.note ? ` — ${s.note}` : ""}</>}
+                {active && started && " · "}
+                {started && <>started {started}</>}
+              </div>
+
+              {failure && (
+                <details style={{ marginTop: 4, fontSize: "12px", color: "#dc2626" }}>
+                  <summary style={{ cursor: "pointer" }}>
+                    {job.analytics === "failed" ? "Analytics failed" : "Pipeline failed"}: {failure.split("\n")[0]}
+                  </summary>
+                  <pre style={{ whiteSpace: "pre-wrap", margin: "4px 0 0", maxHeight: 200, overflow: "auto" }}>{failure}</pre>
+                </details>
+              )}
+              {job.error && (
+                <div style={{ marginTop: 4, fontSize: "12px", color: "#d97706" }}>
+                  {job.stalled ? `Stopped checking: ${job.error}` : job.error}
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      <div style={{ display: "flex", gap: 12, alignItems: "center", fontSize: "12px" }}>
+        {limit && jobs.length > limit && <Link href="/jobs">All jobs ({jobs.length}) →</Link>}
+        {finished.length > 0 && (
+          <button style={smallButton} onClick={() => finished.forEach(j => getJobTracker().dismiss(j.job_id))}>
+            Dismiss {finished.length} finished
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default JobsPanel;
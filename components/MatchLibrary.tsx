@@ -0,0 +1,274 @@
+import Link from "next/link";
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import * as api from "../lib/api";
+import { formatClock } from "../lib/format";
+import { getJobTracker, type TrackedJob } from "../lib/jobTracker";
+import { videoStill } from "../lib/thumbnails";
+import type { Match } from "../lib/types";
+
+type Props = {
+  matches: Match[] | null; // null while loading
+  error?: string;
+  onRenamed: (match: Match) => void;
+  onDeleted: (matchId: number) => void;
+};
+
+type SortKey = "newest" | "oldest" | "title" | "longest";
+type BadgeGroup = "ready" | "processing" | "failed" | "uploaded";
+type Badge = { label: string; group: BadgeGroup };
+
+const SORTS: Record<SortKey, string> = {
+  newest: "Newest first",
+  oldest: "Oldest first",
+  title: "Title A–Z",
+  longest: "Longest first",
+};
+
+const GROUPS: Record<BadgeGroup, string> = {
+  ready: "Ready",
+  processing: "Processing",
+  failed: "Failed",
+  uploaded: "Not processed",
+};
+
+const BADGE_COLORS: Record<BadgeGroup, string> = {
+  ready: "#16a34a",
+  processing: "#0070f3",
+  failed: "#dc2626",
+  uploaded: "#6b7280",
+};
+
+const PAGE_SIZE = 20;
+const THUMB_W = 128;
+const THUMB_H = 72;
+
+const inputStyle: React.CSSProperties = { padding: "0.4rem", border: "1px solid #ccc", borderRadius: "4px" };
+const smallButton: React.CSSProperties = { padding: "2px 8px", fontSize: "12px", cursor: "pointer" };
+
+// Older backends send no date; ids grow with uploads, so they order the same way
+const uploadedAt = (m: Match) => (m.created_at ? Date.parse(m.created_at) : m.id);
+
+const compare: Record<SortKey, (a: Match, b: Match) => number> = {
+  newest: (a, b) => uploadedAt(b) - uploadedAt(a),
+  oldest: (a, b) => uploadedAt(a) - uploadedAt(b),
+  title: (a, b) => a.title.localeCompare(b.title, undefined, { numeric: true, sensitivity: "base" }),
+  longest: (a, b) => (b.duration_s || 0) - (a.duration_s || 0),
+};
+
+// A job tracked in this browser is fresher than the backend's status
+function badgeFor(match: Match, job: TrackedJob | undefined): Badge | null {
+  if (job && job.phase !== "canceled") {
+    switch (job.phase) {
+      case "queued": return { label: "Queued", group: "processing" };
+      case "running": return { label: `Processing ${job.status?.progress ?? 0}%`, group: "processing" };
+      case "analytics": return { label: "Running analytics", group: "processing" };
+      case "done": return { label: "Ready", group: "ready" };
+      case "failed": return { label: "Failed", group: "failed" };
+    }
+  }
+  return match.status ? { label: GROUPS[match.status], group: match.status } : null;
+}
+
+// Every search word must appear in the title; "#12" or "12" also finds match 12
+const matchesQuery = (m: Match, query: string) => {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 1 && /^#?\d+$/.test(words[0]) && m.id === Number(words[0].replace("#", ""))) return true;
+  const title = m.title.toLowerCase();
+  return words.every(w => title.includes(w));
+};
+
+// Per-match browser state (calibration, team fixes, pitch size, parameters, jobs) goes with the match
+function forgetMatch(matchId: number) {
+  const suffix = `:${matchId}`;
+  for (const key of Object.keys(localStorage)) {
+    if (key.startsWith("fe:") && key.endsWith(suffix)) localStorage.removeItem(key);
+  }
+  const tracker = getJobTracker();
+  tracker.jobs().filter(j => j.match_id === matchId).forEach(j => tracker.dismiss(j.job_id));
+}
+
+const MatchThumb: React.FC<{ src: string }> = ({ src }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let live = true;
+    setFailed(false);
+    videoStill(src, THUMB_W, THUMB_H)
+      .then(still => { if (live) canvasRef.current?.getContext("2d")?.drawImage(still, 0, 0); })
+      .catch(() => { if (live) setFailed(true); });
+    return () => { live = false; };
+  }, [src]);
+
+  return (
+    <div style={{ position: "relative", width: THUMB_W, height: THUMB_H, flexShrink: 0, backgroundColor: "#e5e7eb", borderRadius: 4, overflow: "hidden" }}>
+      <canvas ref={canvasRef} width={THUMB_W} height={THUMB_H} style={{ display: "block" }} />
+      {failed && (
+        <span style={{ position: "absolute", inset: 0, display: "flex", alignItems: "center", justifyContent: "center", fontSize: 11, color: "#666" }}>
+          No preview
+        </span>
+      )}
+    </div>
+  );
+};
+
+// Searchable, sortable, paged list of matches with rename and delete
+const MatchLibrary: React.FC<Props> = ({ matches, error, onRenamed, onDeleted }) => {
+  const [query, setQuery] = useState("");
+  const [sort, setSort] = useState<SortKey>("newest");
+  const [group, setGroup] = useState<BadgeGroup | "">("");
+  const [page, setPage] = useState(0);
+  const [jobs, setJobs] = useState<TrackedJob[]>([]);
+  const [editing, setEditing] = useState<{ id: number; title: string } | null>(null);
+  const [busy, setBusy] = useState<number | null>(null);
+  const [rowError, setRowError] = useState<{ id: number; message: string } | null>(null);
+
+  useEffect(() => {
+    const tracker = getJobTracker();
+    setJobs(tracker.jobs());
+    return tracker.subscribe(setJobs);
+  }, []);
+
+  // Later jobs for the same match win
+  const jobByMatch = useMemo(() => new Map(jobs.map(j => [j.match_id, j] as const)), [jobs]);
+
+  const rows = useMemo(() => {
+    const found = (matches || [])
+      .filter(m => matchesQuery(m, query))
+      .map(m => ({ match: m, badge: badgeFor(m, jobByMatch.get(m.id)) }))
+      .filter(r => !group || r.badge?.group === group);
+    return found.sort((a, b) => compare[sort](a.match, b.match) || b.match.id - a.match.id);
+  }, [matches, query, sort, group, jobByMatch]);
+
+  const pages = Math.max(1, Math.ceil(rows.length / PAGE_SIZE));
+  const current = Math.min(page, pages - 1);
+  const shown = rows.slice(current * PAGE_SIZE, (current + 1) * PAGE_SIZE);
+
+  // Any change to the filters starts again from the first page
+  useEffect(() => { setPage(0); }, [query, sort, group]);
+
+  const rename = async () => {
+    if (!editing) return;
+    const title = editing.title.trim();
+    const before = matches?.find(m => m.id === editing.id);
+    if (!title || title === before?.title) {
+      setEditing(null);
+      return;
+    }
+    setBusy(editing.id);
+    setRowError(null);
+    try {
+      onRenamed(await api.renameMatch(editing.id, title));
+      setEditing(null);
+    } catch (e) {
+      setRowError({ id: editing.id, message: e instanceof Error ? e.message : "Rename failed" });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const remove = async (m: Match) => {
+    if (!window.confirm(`Delete "${m.title}"?\n\nThe video, detections and analytics are removed for everyone. This cannot be undone.`)) return;
+    setBusy(m.id);
+    setRowError(null);
+    try {
+      await api.deleteMatch(m.id);
+      forgetMatch(m.id);
+      onDeleted(m.id);
+    } catch (e) {
+      setRowError({ id: m.id, message: e instanceof Error ? e.message : "Delete failed" });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div>
+      <div style={{ display: "flex", gap: 8, flexWrap: "wrap", marginBottom: "0.75rem" }}>
+        <input
+          type="search"
+          placeholder="Search titles or #id"
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          style={{ ...inputStyle, flex: 1, minWidth: 160 }}
+        />
+        <select value={sort} onChange={e => setSort(e.target.value as SortKey)} style={inputStyle}>
+          {(Object.keys(SORTS) as SortKey[]).map(k => <option key={k} value={k}>{SORTS[k]}</option>)}
+        </select>
+        <select value={group} onChange={e => setGroup(e.target.value as BadgeGroup | "")} style={inputStyle}>
+          <option value="">Any status</option>
+          {(Object.keys(GROUPS) as BadgeGroup[]).map(k => <option key={k} value={k}>{GROUPS[k]}</option>)}
+        </select>
+      </div>
+
+      {error && <p style={{ color: "#dc2626" }}>Could not load matches: {error}</p>}
+      {!matches && !error && <p style={{ color: "#666" }}>Loading matches…</p>}
+      {matches && (
+        <p style={{ margin: "0 0 0.5rem", fontSize: "12px", color: "#666" }}>
+          {rows.length === matches.length ? `${matches.length} matches` : `${rows.length} of ${matches.length} matches`}
+        </p>
+      )}
+
+      <ul style={{ listStyle: "none", padding: 0, margin: 0 }}>
+        {shown.map(({ match: m, badge }) => (
+          <li key={m.id} style={{ display: "flex", gap: 12, alignItems: "center", padding: "0.5rem 0", borderBottom: "1px solid #e5e7eb" }}>
+            <Link href={`/match/${m.id}`}><MatchThumb src={m.video_url} /></Link>
+            <div style={{ flex: 1, minWidth: 0 }}>
+              {editing?.id === m.id ? (
+                <input
+                  autoFocus
+                  value={editing.title}
+                  disabled={busy === m.id}
+                  onChange={e => setEditing({ id: m.id, title: e.target.value })}
+                  onKeyDown={e => {
+                    if (e.key === "Enter") rename();
+                    if (e.key === "Escape") setEditing(null);
+                  }}
+                  style={{ ...inputStyle, width: "100%" }}
+                />
+              ) : (
+                <Link href={`/match/${m.id}`} style={{ fontWeight: 600, overflowWrap: "anywhere" }}>{m.title}</Link>
+              )}
+              <div style={{ marginTop: 2, fontSize: "12px", color: "#666" }}>
+                #{m.id}
+                {m.created_at && <> · {new Date(m.created_at).toLocaleDateString()}</>}
+                {m.duration_s ? <> · {formatClock(m.duration_s)}</> : null}
+                {badge && (
+                  <span style={{ marginLeft: 8, padding: "1px 6px", borderRadius: 8, color: "#fff", backgroundColor: BADGE_COLORS[badge.group] }}>
+                    {badge.label}
+                  </span>
+                )}
+              </div>
+              {rowError?.id === m.id && <div style={{ marginTop: 2, fontSize: "12px", color: "#dc2626" }}>{rowError.message}</div>}
+            </div>
+            <div style={{ display: "flex", gap: 6 }}>
+              {editing?.id === m.id ? (
+                <>
+                  <button style={smallButton} disabled={busy === m.id || !editing.title.trim()} onClick={rename}>Save</button>
+                  <button style={smallButton} disabled={busy === m.id} onClick={() => setEditing(null)}>Cancel</button>
+                </>
+              ) : (
+                <>
+                  <button style={smallButton} disabled={busy !== null} onClick={() => setEditing({ id: m.id, title: m.title })}>Rename</button>
+                  <button style={smallButton} disabled={busy !== null} onClick={() => remove(m)}>Delete</button>
+                </>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      {matches && rows.length === 0 && <p style={{ color: "#666" }}>{matches.length ? "No matches found." : "No matches yet."}</p>}
+
+      {pages > 1 && (
+        <div style={{ display: "flex", gap: 8, alignItems: "center", marginTop: "0.75rem", fontSize: "14px" }}>
+          <button style={smallButton} disabled={current === 0} onClick={() => setPage(current - 1)}>← Prev</button>
+          <span>Page {current + 1} of {pages}</span>
+          <button style={smallButton} disabled={current >= pages - 1} onClick={() => setPage(current + 1)}>Next →</button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MatchLibrary;
@@ -0,0 +1,138 @@
+import React, { useMemo, useRef } from "react";
+import { formatClock } from "../lib/format";
+import { decimate, findPeaks, sampleAt, sliceFrames } from "../lib/series";
+import { TEAM_COLORS } from "../lib/teams";
+import type { MomentumData, MomentumFrame } from "../lib/types";
+import TimeChart, { type ChartScales } from "./TimeChart";
+
+const PEAK_PROMINENCE = 10;
+const PEAK_SPACING_S = 30;
+
+interface MomentumChartProps {
+  momentumData: MomentumData;
+  currentFrame: number;
+  onSeek: (frame: number) => void;
+}
+
+type MomentumPeak = { frame: number; time_s: number; team: number; value: number };
+
+const momentumOf = (f: MomentumFrame, team: number) => (team === 1 ? f.team1_momentum : f.team2_momentum);
+
+const renderSeries = (series: MomentumFrame[], s: ChartScales, clipId: string) => {
+  const points = decimate(sliceFrames(series, s.view[0], s.view[1]), Math.max(2, (s.right - s.left) * 2));
+  if (points.length < 2) return null;
+  const x0 = s.x(points[0].frame_id);
+  const x1 = s.x(points[points.length - 1].frame_id);
+  const diff = points.map(f => `${s.x(f.frame_id)},${s.y(f.team1_momentum - f.team2_momentum)}`).join(" L");
+  const diffArea = `M${x0},${s.y(0)} L${diff} L${x1},${s.y(0)} Z`;
+  const line = (team: number) => "M" + points.map(f => `${s.x(f.frame_id)},${s.y(momentumOf(f, team))}`).join(" L");
+
+  return (
+    <>
+      {/* Signed difference: above zero team 1 is on top, below zero team 2 */}
+      <clipPath id={`${clipId}-pos`}><rect x={s.left} y={s.top} width={s.right - s.left} height={s.y(0) - s.top} /></clipPath>
+      <clipPath id={`${clipId}-neg`}><rect x={s.left} y={s.y(0)} width={s.right - s.left} height={s.bottom - s.y(0)} /></clipPath>
+      <path d={diffArea} fill="rgba(220, 38, 38, 0.25)" clipPath={`url(#${clipId}-pos)`} />
+      <path d={diffArea} fill="rgba(37, 99, 235, 0.25)" clipPath={`url(#${clipId}-neg)`} />
+      <line x1={s.left} x2={s.right} y1={s.y(0)} y2={s.y(0)} stroke="#9ca3af" />
+      <path d={line(1)} fill="none" stroke={TEAM_COLORS[1].stroke} strokeWidth={1.5} />
+      <path d={line(2)} fill="none" stroke={TEAM_COLORS[2].stroke} strokeWidth={1.5} />
+    </>
+  );
+};
+
+// Both teams' momentum over the match, their difference, and auto-detected peaks
+const MomentumChart: React.FC<MomentumChartProps> = ({ momentumData, currentFrame, onSeek }) => {
+  const series = momentumData.series;
+  // Unique per chart so two instances on a page don't clip each other's areas
+  const clipId = useRef(`momentum-clip-${Math.random().toString(36).slice(2)}`).current;
+
+  const peaks = useMemo(() => {
+    if (series.length < 3) return [];
+    const step = (series[series.length - 1].time_s - series[0].time_s) / (series.length - 1) || 1;
+    const spacing = Math.max(1, Math.round(PEAK_SPACING_S / step));
+    const out: MomentumPeak[] = [];
+    for (const team of [1, 2]) {
+      for (const p of findPeaks(series.map(f => momentumOf(f, team)), PEAK_PROMINENCE, spacing)) {
+        const f = series[p.index];
+        out.push({ frame: f.frame_id, time_s: f.time_s, team, value: p.value });
+      }
+    }
+    return out.sort((a, b) => a.frame - b.frame);
+  }, [series]);
+
+  if (series.length < 2) return null;
+  const first = series[0];
+  const last = series[series.length - 1];
+  const secPerFrame = (last.time_s - first.time_s) / Math.max(1, last.frame_id - first.frame_id);
+
+  return (
+    <>
+      <TimeChart
+        data={series}
+        domain={[first.frame_id, last.frame_id]}
+        yDomain={[-100, 100]}
+        yTicks={[-100, -50, 0, 50, 100]}
+        currentFrame={currentFrame}
+        timeAt={f => first.time_s + (f - first.frame_id) * secPerFrame}
+        onSeek={onSeek}
+        renderSeries={(data, s) => renderSeries(data, s, clipId)}
+        renderOverlay={s => peaks.map(p => (
+          <circle
+            key={`${p.team}-${p.frame}`}
+            cx={s.x(p.frame)}
+            cy={s.y(p.value)}
+            r={5}
+            fill="white"
+            stroke={TEAM_COLORS[p.team].stroke}
+            strokeWidth={2}
+            style={{ cursor: "pointer" }}
+            onPointerDown={e => {
+              e.stopPropagation(); // exact peak frame, not the chart's click-to-seek
+              onSeek(p.frame);
+            }}
+          >
+            <title>{`Team ${p.team} peak ${Math.round(p.value)} at ${formatClock(p.time_s)}`}</title>
+          </circle>
+        ))}
+        renderReadout={frame => {
+          const f = sampleAt(series, frame);
+          if (!f) return "no data";
+          const diff = f.team1_momentum - f.team2_momentum;
+          return (
+            <>
+              <span style={{ color: "#fca5a5" }}>Team 1 {Math.round(f.team1_momentum)}</span>
+              {" · "}
+              <span style={{ color: "#93c5fd" }}>Team 2 {Math.round(f.team2_momentum)}</span>
+              {" · Δ "}{diff > 0 ? "+" : ""}{Math.round(diff)}
+            </>
+          );
+        }}
+      />
+      {peaks.length > 0 && (
+        <div style={{ display: "flex", flexWrap: "wrap", gap: 6, marginTop: 6, fontSize: "11px" }}>
+          <span style={{ color: "#666" }}>Peaks:</span>
+          {peaks.map(p => (
+            <button
+              key={`${p.team}-${p.frame}`}
+              onClick={() => onSeek(p.frame)}
+              style={{
+                padding: "1px 6px",
+                border: `1px solid ${TEAM_COLORS[p.team].stroke}`,
+                borderRadius: 10,
+                background: "white",
+                color: TEAM_COLORS[p.team].stroke,
+                cursor: "pointer",
+                fontSize: "11px"
+              }}
+            >
+              {formatClock(p.time_s)} · T{p.team} {Math.round(p.value)}
+            </button>
+          ))}
+        </div>
+      )}
+    </>
+  );
+};
+
+export default MomentumChart;
@@ -0,0 +1,116 @@
+import React, { useEffect, useState } from "react";
+import {
+  BUILTIN_PRESETS,
+  PARAM_LIMITS,
+  clampParams,
+  deleteUserPreset,
+  loadUserPresets,
+  presetName,
+  saveUserPreset,
+  type PipelineParams,
+  type Preset,
+} from "../lib/presets";
+
+type Props = {
+  value: PipelineParams;
+  onChange: (params: PipelineParams) => void;
+};
+
+const FIELDS: { key: keyof PipelineParams; label: string; hint: string }[] = [
+  { key: "conf_thres", label: "Detection confidence", hint: "lower finds smaller or blurrier players" },
+  { key: "max_dist_m", label: "Possession radius (m)", hint: "how close a player must be to own the ball" },
+  { key: "stride", label: "Analytics stride (frames)", hint: "control zones and momentum sample every N frames" },
+];
+
+const inputStyle: React.CSSProperties = { width: 90, padding: "0.25rem", border: "1px solid #ccc", borderRadius: "4px" };
+const smallButton: React.CSSProperties = { padding: "2px 8px", fontSize: "12px", cursor: "pointer" };
+
+// Collapsible parameter section of the upload form with built-in and saved presets
+const PipelineSettings: React.FC<Props> = ({ value, onChange }) => {
+  const [userPresets, setUserPresets] = useState<Preset[]>([]);
+  const [newName, setNewName] = useState("");
+
+  useEffect(() => { setUserPresets(loadUserPresets()); }, []);
+
+  const presets = [...BUILTIN_PRESETS, ...userPresets];
+  const current = presetName(value, presets);
+  const currentIsUser = userPresets.some(p => p.name === current);
+
+  const save = () => {
+    const name = newName.trim();
+    if (!name || BUILTIN_PRESETS.some(p => p.name === name)) return;
+    saveUserPreset({ name, params: value });
+    setUserPresets(loadUserPresets());
+    setNewName("");
+  };
+
+  const remove = () => {
+    if (!current || !currentIsUser || !window.confirm(`Delete preset "${current}"?`)) return;
+    deleteUserPreset(current);
+    setUserPresets(loadUserPresets());
+  };
+
+  return (
+    <details style={{ marginBottom: "1rem", fontSize: "14px" }}>
+      <summary style={{ cursor: "pointer" }}>
+        Advanced settings <span style={{ color: "#666" }}>({current ?? "custom"})</span>
+      </summary>
+
+      <div style={{ marginTop: "0.5rem", display: "flex", gap: 8, alignItems: "center" }}>
+        <label htmlFor="preset">Preset:</label>
+        <select
+          id="preset"
+          value={current ?? ""}
+          onChange={e => {
+            const preset = presets.find(p => p.name === e.target.value);
+            if (preset) onChange(preset.params);
+          }}
+        >
+          {!current && <option value="">Custom</option>}
+          <optgroup label="Built-in">
+            {BUILTIN_PRESETS.map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
+          </optgroup>
+          {userPresets.length > 0 && (
+            <optgroup label="Saved">
+              {userPresets.map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
+            </optgroup>
+          )}
+        </select>
+        {currentIsUser && <button type="button" style={smallButton} onClick={remove}>Delete preset</button>}
+      </div>
+
+      {FIELDS.map(f => (
+        <div key={f.key} style={{ marginTop: "0.5rem", display: "flex", gap: 8, alignItems: "center" }}>
+          <label htmlFor={f.key} style={{ width: 190 }}>{f.label}</label>
+          <input
+            id={f.key}
+            type="number"
+            min={PARAM_LIMITS[f.key].min}
+            max={PARAM_LIMITS[f.key].max}
+            step={PARAM_LIMITS[f.key].step}
+            value={value[f.key]}
+            onChange={e => onChange({ ...value, [f.key]: Number(e.target.value) })}
+            onBlur={() => onChange(clampParams(value))}
+            style={inputStyle}
+          />
+          <span style={{ color: "#666", fontSize: "12px" }}>{f.hint}</span>
+        </div>
+      ))}
+
+      {!current && (
+        <div style={{ marginTop: "0.5rem", display: "flex", gap: 8, alignItems: "center" }}>
+          <input
+            type="text"
+            placeholder="Preset name"
+            value={newName}
+            onChange={e => setNewName(e.target.value)}
+            style={{ ...inputStyle, width: 190 }}
+          />
+          <button type="button" style={smallButton} disabled={!newName.trim()} onClick={save}>Save as preset</button>
+        </div>
+      )}
+    </details>
+  );
+};
+
+export default PipelineSettings;
@@ -0,0 +1,145 @@
+import React, { useState } from "react";
+import { SPEED_BANDS, type MetricsResult, type PlayerMetrics as PlayerRow } from "../lib/playerMetrics";
+import { TEAM_COLORS } from "../lib/teams";
+
+const BAND_COLORS = ["#d1d5db", "#93c5fd", "#34d399", "#fbbf24", "#ef4444"];
+
+type SortKey = "object_id" | "team" | "distance_m" | "top_speed_kmh" | "sprints" | "avg_x";
+
+interface PlayerMetricsProps {
+  result: MetricsResult | null;
+  loading: boolean;
+  error: string;
+  onCompute: () => void;
+  selectedId: number | null;
+  onSelect: (objectId: number) => void;
+}
+
+const fmtKm = (m: number) => `${(m / 1000).toFixed(2)} km`;
+const fmtPos = (x: number, y: number) => (isFinite(x) ? `${x.toFixed(0)}, ${y.toFixed(0)}` : "–");
+
+// Stacked bar of time spent in each speed band
+const BandBar: React.FC<{ band_s: number[] }> = ({ band_s }) => {
+  const total = band_s.reduce((a, b) => a + b, 0) || 1;
+  return (
+    <div
+      style={{ display: "flex", width: 120, height: 10, borderRadius: 2, overflow: "hidden", border: "1px solid #e5e7eb" }}
+      title={SPEED_BANDS.map((b, i) => `${b.name}: ${Math.round(band_s[i])} s`).join("\n")}
+    >
+      {band_s.map((s, i) => (
+        <div key={i} style={{ width: `${(s / total) * 100}%`, backgroundColor: BAND_COLORS[i] }} />
+      ))}
+    </div>
+  );
+};
+
+const PlayerMetrics: React.FC<PlayerMetricsProps> = ({ result, loading, error, onCompute, selectedId, onSelect }) => {
+  const [sortKey, setSortKey] = useState<SortKey>("distance_m");
+  const [desc, setDesc] = useState(true);
+
+  const sortBy = (key: SortKey) => {
+    if (key === sortKey) setDesc(!desc);
+    else { setSortKey(key); setDesc(key !== "object_id" && key !== "team"); }
+  };
+
+  const rows: PlayerRow[] = (result?.players || []).slice().sort((a, b) => {
+    const d = (a[sortKey] ?? 0) - (b[sortKey] ?? 0);
+    return desc ? -d : d;
+  });
+
+  const th = (label: string, key?: SortKey) => (
+    <th
+      onClick={key ? () => sortBy(key) : undefined}
+      style={{ textAlign: "left", padding: "4px 8px", cursor: key ? "pointer" : "default", whiteSpace: "nowrap" }}
+    >
+      {label}{key === sortKey ? (desc ? " ▼" : " ▲") : ""}
+    </th>
+  );
+
+  return (
+    <div style={{
+      width: "960px",
+      maxWidth: "100%",
+      padding: "20px",
+      backgroundColor: "#f8f9fa",
+      border: "1px solid #dee2e6",
+      borderRadius: "8px"
+    }}>
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: "12px" }}>
+        <h3 style={{ margin: 0, fontSize: "18px", fontWeight: "600" }}>Player Physical Metrics</h3>
+        <button onClick={onCompute} disabled={loading} style={{ padding: "4px 10px", cursor: loading ? "wait" : "pointer" }}>
+          {loading ? "Computing…" : result ? "Recompute" : "Compute"}
+        </button>
+      </div>
+
+      {error && <p style={{ color: "#dc2626" }}>{error}</p>}
+      {!result && !loading && !error && (
+        <p style={{ color: "#666", margin: 0 }}>
+          Distance, speeds and positions for every tracked player over the whole match.
+        </p>
+      )}
+
+      {result && (
+        <>
+          <div style={{ display: "flex", gap: 12, marginBottom: 12 }}>
+            {result.teams.map(t => (
+              <div key={t.team} style={{ flex: 1, padding: "8px 12px", borderRadius: 4, borderLeft: `4px solid ${TEAM_COLORS[t.team].stroke}`, backgroundColor: "white", fontSize: "12px" }}>
+                <div style={{ fontWeight: 600, color: TEAM_COLORS[t.team].stroke, marginBottom: 4 }}>Team {t.team} ({t.players} players)</div>
+                <div>Distance: {fmtKm(t.distance_m)} · Top speed: {t.top_speed_kmh.toFixed(1)} km/h · Sprints: {t.sprints}</div>
+                <div style={{ display: "flex", alignItems: "center", gap: 8, marginTop: 4 }}>
+                  <BandBar band_s={t.band_s} /> <span>Avg position: {fmtPos(t.avg_x, t.avg_y)} m</span>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div style={{ display: "flex", gap: 12, fontSize: "11px", color: "#666", marginBottom: 6 }}>
+            {SPEED_BANDS.map((b, i) => (
+              <span key={b.name} style={{ display: "inline-flex", alignItems: "center", gap: 4 }}>
+                <i style={{ width: 10, height: 10, background: BAND_COLORS[i], display: "inline-block", borderRadius: 2 }} />
+                {b.name} ({b.min}+ km/h)
+              </span>
+            ))}
+          </div>
+
+          <div style={{ maxHeight: 320, overflowY: "auto" }}>
+            <table style={{ width: "100%", borderCollapse: "collapse", fontSize: "12px" }}>
+              <thead style={{ position: "sticky", top: 0, backgroundColor: "#f8f9fa" }}>
+                <tr>
+                  {th("Track", "object_id")}
+                  {th("Team", "team")}
+                  {th("Distance", "distance_m")}
+                  {th("Top speed", "top_speed_kmh")}
+                  {th("Sprints", "sprints")}
+                  {th("Speed bands")}
+                  {th("Avg pos (m)", "avg_x")}
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(p => (
+                  <tr
+                    key={p.object_id}
+                    onClick={() => onSelect(p.object_id)}
+                    style={{ cursor: "pointer", backgroundColor: p.object_id === selectedId ? "#e0f2fe" : undefined, borderTop: "1px solid #e5e7eb" }}
+                  >
+                    <td style={{ padding: "4px 8px" }}>#{p.object_id}</td>
+                    <td style={{ padding: "4px 8px", color: p.team ? TEAM_COLORS[p.team]?.stroke : "#6b7280", fontWeight: 600 }}>
+                      {p.team ? `Team ${p.team}` : "–"}
+                    </td>
+                    <td style={{ padding: "4px 8px" }}>{fmtKm(p.distance_m)}</td>
+                    <td style={{ padding: "4px 8px" }}>{p.top_speed_kmh.toFixed(1)} km/h</td>
+                    <td style={{ padding: "4px 8px" }}>{p.sprints}</td>
+                    <td style={{ padding: "4px 8px" }}><BandBar band_s={p.band_s} /></td>
+                    <td style={{ padding: "4px 8px" }}>{fmtPos(p.avg_x, p.avg_y)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PlayerMetrics;
@@ -0,0 +1,167 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { formatClock } from "../lib/format";
+import { TEAM_COLORS } from "../lib/teams";
+import type { PossessionData } from "../lib/types";
+
+const NEUTRAL = "rgba(107, 114, 128, 0.25)";
+
+export type RibbonMarker = { key: string; frame: number; seekTo: number; color: string; title: string };
+
+interface PossessionRibbonProps {
+  possessionData: PossessionData | null;
+  currentFrame: number;
+  onSeek: (frame: number) => void;
+  markers?: RibbonMarker[];
+}
+
+type Span = { start: number; end: number; team: number | null };
+
+// Full-match possession timeline. Click or drag to seek the video; event
+// markers above it jump to their own seek frame.
+const PossessionRibbon: React.FC<PossessionRibbonProps> = ({ possessionData, currentFrame, onSeek, markers = [] }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [width, setWidth] = useState(0);
+  const [hoverX, setHoverX] = useState<number | null>(null);
+  const dragging = useRef(false);
+
+  const series = possessionData?.series || [];
+  const first = series.length ? series[0].frame_id : 0;
+  const last = series.length ? series[series.length - 1].frame_id : 0;
+  const span = Math.max(1, last - first);
+  // seconds per frame, taken from the series itself
+  const secPerFrame = series.length > 1 ? (series[series.length - 1].time_s - series[0].time_s) / span : 0;
+
+  // Collapse the per-frame series into runs of the same team
+  const spans = useMemo(() => {
+    const out: Span[] = [];
+    for (const f of series) {
+      const prev = out[out.length - 1];
+      if (prev && prev.team === f.team) prev.end = f.frame_id;
+      else out.push({ start: f.frame_id, end: f.frame_id, team: f.team });
+    }
+    return out;
+  }, [series]);
+
+  const hasData = series.length > 0;
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const ro = new ResizeObserver(() => setWidth(el.clientWidth));
+    ro.observe(el);
+    setWidth(el.clientWidth);
+    return () => ro.disconnect();
+  }, [hasData]);
+
+  // The ribbon itself only changes with the data or the width; the playhead is a DOM overlay
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !width) return;
+    canvas.width = width;
+    canvas.height = 24;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.fillStyle = NEUTRAL;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    for (const s of spans) {
+      if (s.team === null || !TEAM_COLORS[s.team]) continue;
+      const x0 = ((s.start - first) / span) * width;
+      const x1 = ((s.end + 1 - first) / span) * width;
+      ctx.fillStyle = TEAM_COLORS[s.team].stroke;
+      ctx.fillRect(x0, 0, Math.max(1, x1 - x0), canvas.height);
+    }
+  }, [spans, width, first, span]);
+
+  const frameAtX = (clientX: number) => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    const k = Math.min(1, Math.max(0, (clientX - rect.left) / rect.width));
+    return Math.round(first + k * span);
+  };
+
+  const teamAt = (frame: number) => {
+    const s = spans.find(sp => frame >= sp.start && frame <= sp.end);
+    return s ? s.team : null;
+  };
+
+  if (!series.length) return null;
+
+  const playhead = Math.min(1, Math.max(0, (currentFrame - first) / span)) * 100;
+  const hoverFrame = hoverX !== null ? frameAtX(hoverX) : null;
+  const hoverTeam = hoverFrame !== null ? teamAt(hoverFrame) : null;
+  const ticks = Array.from({ length: 7 }, (_, i) => i / 6);
+
+  return (
+    <div style={{ width: "100%" }}>
+      <h4 style={{ margin: "0 0 8px 0", fontSize: "14px", fontWeight: "500" }}>Possession Timeline</h4>
+      {markers.length > 0 && (
+        <div style={{ position: "relative", height: 12, marginBottom: 2 }}>
+          {markers.filter(m => m.frame >= first && m.frame <= last).map(m => (
+            <button
+              key={m.key}
+              title={m.title}
+              onClick={() => onSeek(m.seekTo)}
+              style={{
+                position: "absolute",
+                top: 0,
+                left: `${((m.frame - first) / span) * 100}%`,
+                width: 6,
+                height: 12,
+                marginLeft: -3,
+                padding: 0,
+                border: "none",
+                borderRadius: "3px 3px 0 0",
+                backgroundColor: m.color,
+                cursor: "pointer"
+              }}
+            />
+          ))}
+        </div>
+      )}
+      <div
+        ref={containerRef}
+        style={{ position: "relative", height: 24, cursor: "pointer", border: "1px solid #ccc", borderRadius: 4, overflow: "hidden", touchAction: "none" }}
+        onPointerDown={e => {
+          dragging.current = true;
+          e.currentTarget.setPointerCapture(e.pointerId);
+          onSeek(frameAtX(e.clientX));
+        }}
+        onPointerMove={e => {
+          setHoverX(e.clientX);
+          if (dragging.current) onSeek(frameAtX(e.clientX));
+        }}
+        onPointerUp={() => { dragging.current = false; }}
+        onPointerLeave={() => setHoverX(null)}
+      >
+        <canvas ref={canvasRef} style={{ display: "block", width: "100%", height: 24 }} />
+        <div style={{ position: "absolute", top: 0, bottom: 0, left: `${playhead}%`, width: 2, marginLeft: -1, backgroundColor: "#111827", pointerEvents: "none" }} />
+        {hoverFrame !== null && (
+          <div style={{
+            position: "absolute",
+            top: 2,
+            left: `${((hoverFrame - first) / span) * 100}%`,
+            transform: "translateX(-50%)",
+            padding: "0 6px",
+            backgroundColor: "rgba(17, 24, 39, 0.85)",
+            color: "white",
+            fontSize: "11px",
+            borderRadius: 3,
+            pointerEvents: "none",
+            whiteSpace: "nowrap"
+          }}>
+            {formatClock((hoverFrame - first) * secPerFrame + series[0].time_s)} · {hoverTeam ? `Team ${hoverTeam}` : "Neutral"}
+          </div>
+        )}
+      </div>
+      <div style={{ position: "relative", height: 16, fontSize: "11px", color: "#666" }}>
+        {ticks.map(k => (
+          <span key={k} style={{ position: "absolute", left: `${k * 100}%`, transform: k === 0 ? "none" : k === 1 ? "translateX(-100%)" : "translateX(-50%)" }}>
+            {formatClock(series[0].time_s + k * span * secPerFrame)}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default PossessionRibbon;
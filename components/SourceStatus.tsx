@@ -0,0 +1,42 @@
+import React from "react";
+
+type Entry = {
+  label: string;
+  loading: boolean;
+  error: Error | null;
+  retry: () => void;
+  empty: boolean;
+  emptyText?: string;
+};
+
+type Props = { sources: Entry[] };
+
+const smallButton: React.CSSProperties = { padding: "0 6px", fontSize: "11px", cursor: "pointer", marginLeft: 4 };
+
+// One chip per backend source on the match page, so a failed request never
+// passes for "no data" and each source can be retried on its own
+const SourceStatus: React.FC<Props> = ({ sources }) => (
+  <div style={{ display: "flex", flexWrap: "wrap", gap: 6, marginBottom: 12, fontSize: 12 }}>
+    {sources.map(s => {
+      const [color, text] = s.error
+        ? ["#dc2626", `failed: ${s.error.message}`]
+        : s.loading
+          ? ["#6b7280", "loading…"]
+          : s.empty
+            ? ["#d97706", s.emptyText || "none"]
+            : ["#16a34a", "ok"];
+      return (
+        <span
+          key={s.label}
+          title={s.error?.message}
+          style={{ padding: "2px 8px", border: `1px solid ${color}`, borderRadius: 10, color, maxWidth: 360, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}
+        >
+          {s.label}: {text}
+          {s.error && <button style={smallButton} onClick={s.retry}>Retry</button>}
+        </span>
+      );
+    })}
+  </div>
+);
+
+export default SourceStatus;
@@ -0,0 +1,238 @@
+import React, { useEffect, useRef, useState } from "react";
+import type { DetectionStore } from "../lib/detectionStore";
+import type { TeamOverrides } from "../lib/teamOverrides";
+import { TEAM_COLORS } from "../lib/teams";
+import { createThumbnailer } from "../lib/thumbnails";
+import type { Track } from "../lib/types";
+import { timeAtFrame } from "../lib/videoFrames";
+
+const THUMB_W = 40;
+const THUMB_H = 60;
+
+type Filter = "all" | "1" | "2" | "none" | "overridden";
+
+interface TeamEditorProps {
+  tracks: Track[];
+  overrides: TeamOverrides;
+  tracksMap: Record<number, number>; // effective assignment (backend + overrides)
+  store: DetectionStore;
+  videoUrl: string;
+  fps: number;
+  frameOffset: number;
+  onAssign: (objectIds: number[], team: number | null) => void; // team 0 = no team, null = drop override
+  onResetOverrides: () => void;
+  onRerunAuto: () => Promise<void>;
+  selectedId: number | null;
+  onSelect: (objectId: number) => void;
+}
+
+// Copies a captured thumbnail into the row
+const Thumb: React.FC<{ source?: HTMLCanvasElement }> = ({ source }) => {
+  const ref = useRef<HTMLCanvasElement>(null);
+  useEffect(() => {
+    const ctx = ref.current?.getContext("2d");
+    if (ctx && source) ctx.drawImage(source, 0, 0);
+  }, [source]);
+  return (
+    <canvas
+      ref={ref}
+      width={THUMB_W}
+      height={THUMB_H}
+      style={{ width: THUMB_W, height: THUMB_H, backgroundColor: "#e5e7eb", borderRadius: 2, display: "block" }}
+    />
+  );
+};
+
+const TeamEditor: React.FC<TeamEditorProps> = ({
+  tracks, overrides, tracksMap, store, videoUrl, fps, frameOffset,
+  onAssign, onResetOverrides, onRerunAuto, selectedId, onSelect,
+}) => {
+  const [checked, setChecked] = useState<Set<number>>(new Set());
+  const [filter, setFilter] = useState<Filter>("all");
+  const [rerunning, setRerunning] = useState(false);
+  const [error, setError] = useState("");
+  const [thumbs, setThumbs] = useState<Record<number, HTMLCanvasElement>>({});
+
+  const sorted = tracks.slice().sort((a, b) => b.n_samples - a.n_samples);
+
+  // Grab one crop per track from the frame where it appears largest
+  useEffect(() => {
+    if (!videoUrl || !sorted.length) return;
+    const thumbnailer = createThumbnailer(videoUrl);
+    let cancelled = false;
+    (async () => {
+      for (const t of sorted) {
+        const dets = store.byObject(t.object_id);
+        if (!dets.length) continue;
+        const best = dets.reduce((a, b) => (b.y2 - b.y1 > a.y2 - a.y1 ? b : a));
+        try {
+          const time = timeAtFrame(best.frame_id + 0.5, fps, frameOffset);
+          const canvas = await thumbnailer.capture(Math.max(0, time), best, THUMB_W, THUMB_H);
+          if (cancelled) return;
+          setThumbs(prev => ({ ...prev, [t.object_id]: canvas }));
+        } catch {
+          return; // video unavailable: rows just keep their placeholder
+        }
+      }
+    })();
+    return () => {
+      cancelled = true;
+      thumbnailer.dispose();
+    };
+    // Tracks are re-fetched after an automatic re-run, but the crops don't change
+  }, [videoUrl, store, tracks.length, fps, frameOffset]);
+
+  const teamOf = (id: number) => tracksMap[id] || 0;
+  const visible = sorted.filter(t => {
+    if (filter === "overridden") return t.object_id in overrides;
+    if (filter === "none") return !teamOf(t.object_id);
+    if (filter === "1" || filter === "2") return teamOf(t.object_id) === Number(filter);
+    return true;
+  });
+
+  const toggle = (id: number) => {
+    const next = new Set(checked);
+    if (next.has(id)) next.delete(id); else next.add(id);
+    setChecked(next);
+  };
+  const allVisibleChecked = visible.length > 0 && visible.every(t => checked.has(t.object_id));
+
+  const bulk = (team: number | null) => {
+    onAssign(Array.from(checked), team);
+    setChecked(new Set());
+  };
+
+  const rerun = async () => {
+    setRerunning(true);
+    setError("");
+    try {
+      await onRerunAuto();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Automatic assignment failed");
+    } finally {
+      setRerunning(false);
+    }
+  };
+
+  const teamButton = (label: string, team: number | null, disabled: boolean, color?: string) => (
+    <button
+      onClick={() => bulk(team)}
+      disabled={disabled}
+      style={{ padding: "2px 8px", fontSize: "12px", cursor: disabled ? "not-allowed" : "pointer", color }}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div style={{
+      width: "960px",
+      maxWidth: "100%",
+      padding: "20px",
+      backgroundColor: "#f8f9fa",
+      border: "1px solid #dee2e6",
+      borderRadius: "8px"
+    }}>
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: "12px" }}>
+        <h3 style={{ margin: 0, fontSize: "18px", fontWeight: "600" }}>Team Assignment</h3>
+        <div style={{ display: "flex", gap: 8 }}>
+          <button onClick={onResetOverrides} disabled={!Object.keys(overrides).length} style={{ padding: "4px 10px" }}>
+            Reset overrides
+          </button>
+          <button onClick={rerun} disabled={rerunning} style={{ padding: "4px 10px", cursor: rerunning ? "wait" : "pointer" }}>
+            {rerunning ? "Re-running…" : "Re-run automatic assignment"}
+          </button>
+        </div>
+      </div>
+
+      {error && <p style={{ color: "#dc2626", margin: "0 0 8px 0" }}>{error}</p>}
+
+      <div style={{ display: "flex", gap: 12, alignItems: "center", flexWrap: "wrap", fontSize: "12px", marginBottom: 8 }}>
+        <label>
+          Show{" "}
+          <select value={filter} onChange={e => setFilter(e.target.value as Filter)}>
+            <option value="all">all tracks ({tracks.length})</option>
+            <option value="1">Team 1</option>
+            <option value="2">Team 2</option>
+            <option value="none">no team</option>
+            <option value="overridden">manually overridden ({Object.keys(overrides).length})</option>
+          </select>
+        </label>
+        <span style={{ color: "#666" }}>{checked.size} selected:</span>
+        {teamButton("Team 1", 1, !checked.size, TEAM_COLORS[1].stroke)}
+        {teamButton("Team 2", 2, !checked.size, TEAM_COLORS[2].stroke)}
+        {teamButton("No team", 0, !checked.size)}
+        {teamButton("Back to automatic", null, !checked.size)}
+      </div>
+
+      <div style={{ maxHeight: 360, overflowY: "auto" }}>
+        <table style={{ width: "100%", borderCollapse: "collapse", fontSize: "12px" }}>
+          <thead style={{ position: "sticky", top: 0, backgroundColor: "#f8f9fa", zIndex: 1 }}>
+            <tr>
+              <th style={{ padding: "4px 8px", textAlign: "left" }}>
+                <input
+                  type="checkbox"
+                  checked={allVisibleChecked}
+                  onChange={() => {
+                    const next = new Set(checked);
+                    visible.forEach(t => (allVisibleChecked ? next.delete(t.object_id) : next.add(t.object_id)));
+                    setChecked(next);
+                  }}
+                />
+              </th>
+              <th style={{ padding: "4px 8px", textAlign: "left" }}></th>
+              <th style={{ padding: "4px 8px", textAlign: "left" }}>Track</th>
+              <th style={{ padding: "4px 8px", textAlign: "left" }}>Class</th>
+              <th style={{ padding: "4px 8px", textAlign: "left" }}>Samples</th>
+              <th style={{ padding: "4px 8px", textAlign: "left" }}>Team</th>
+            </tr>
+          </thead>
+          <tbody>
+            {visible.map(t => {
+              const team = teamOf(t.object_id);
+              const overridden = t.object_id in overrides;
+              return (
+                <tr
+                  key={t.object_id}
+                  style={{ borderTop: "1px solid #e5e7eb", backgroundColor: t.object_id === selectedId ? "#e0f2fe" : undefined }}
+                >
+                  <td style={{ padding: "4px 8px" }}>
+                    <input type="checkbox" checked={checked.has(t.object_id)} onChange={() => toggle(t.object_id)} />
+                  </td>
+                  <td style={{ padding: "4px 8px", cursor: "pointer" }} onClick={() => onSelect(t.object_id)}>
+                    <Thumb source={thumbs[t.object_id]} />
+                  </td>
+                  <td style={{ padding: "4px 8px", cursor: "pointer" }} onClick={() => onSelect(t.object_id)}>#{t.object_id}</td>
+                  <td style={{ padding: "4px 8px" }}>{store.classOf(t.object_id) || "–"}</td>
+                  <td style={{ padding: "4px 8px" }}>{t.n_samples}</td>
+                  <td style={{ padding: "4px 8px" }}>
+                    <select
+                      value={team}
+                      onChange={e => onAssign([t.object_id], Number(e.target.value))}
+                      style={{ color: team ? TEAM_COLORS[team]?.stroke : undefined, fontWeight: 600 }}
+                    >
+                      <option value={1}>Team 1</option>
+                      <option value={2}>Team 2</option>
+                      <option value={0}>No team</option>
+                    </select>
+                    {overridden && (
+                      <button
+                        onClick={() => onAssign([t.object_id], null)}
+                        title={`Automatic: ${t.team_id ? `Team ${t.team_id}` : "no team"}`}
+                        style={{ marginLeft: 6, fontSize: "11px", padding: "0 4px", cursor: "pointer" }}
+                      >
+                        manual ×
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default TeamEditor;
@@ -0,0 +1,187 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { formatClock } from "../lib/format";
+
+// Shared frame for the analytics time-series charts: axes, playhead, hover
+// line, drag-to-zoom and click-to-seek. The series itself is drawn by the caller.
+
+export type ChartScales = {
+  x: (frame: number) => number;
+  y: (value: number) => number;
+  view: [number, number]; // visible frame range
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+};
+
+interface TimeChartProps<T> {
+  data: T[];
+  domain: [number, number]; // full frame range
+  yDomain: [number, number];
+  yTicks: number[];
+  yFormat?: (v: number) => string;
+  height?: number;
+  currentFrame: number;
+  timeAt: (frame: number) => number; // seconds, for axis labels
+  onSeek: (frame: number) => void;
+  renderSeries: (data: T[], scales: ChartScales) => React.ReactNode;
+  renderOverlay?: (scales: ChartScales) => React.ReactNode; // redrawn every render, e.g. clickable markers
+  renderReadout?: (frame: number) => React.ReactNode;
+}
+
+const MARGIN = { left: 36, right: 8, top: 8, bottom: 20 };
+const CLICK_PX = 4; // drags shorter than this are clicks
+
+function TimeChart<T>({
+  data, domain, yDomain, yTicks, yFormat = v => String(v), height = 160,
+  currentFrame, timeAt, onSeek, renderSeries, renderOverlay, renderReadout,
+}: TimeChartProps<T>) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const clipId = useRef(`tc-clip-${Math.random().toString(36).slice(2)}`).current;
+  const [width, setWidth] = useState(0);
+  const [zoom, setZoom] = useState<[number, number] | null>(null);
+  const [hoverPx, setHoverPx] = useState<number | null>(null);
+  const [drag, setDrag] = useState<{ from: number; to: number } | null>(null);
+
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const ro = new ResizeObserver(() => setWidth(el.clientWidth));
+    ro.observe(el);
+    setWidth(el.clientWidth);
+    return () => ro.disconnect();
+  }, []);
+
+  // A new match (or a new series) resets the zoom
+  useEffect(() => setZoom(null), [domain[0], domain[1]]);
+
+  const view: [number, number] = zoom || domain;
+  const left = MARGIN.left;
+  const right = Math.max(left + 1, width - MARGIN.right);
+  const top = MARGIN.top;
+  const bottom = height - MARGIN.bottom;
+  const spanF = Math.max(1, view[1] - view[0]);
+  const spanY = yDomain[1] - yDomain[0] || 1;
+
+  const scales: ChartScales = {
+    x: f => left + ((f - view[0]) / spanF) * (right - left),
+    y: v => bottom - ((v - yDomain[0]) / spanY) * (bottom - top),
+    view, left, right, top, bottom,
+  };
+  const frameAtPx = (px: number) =>
+    Math.round(view[0] + Math.min(1, Math.max(0, (px - left) / (right - left))) * spanF);
+
+  // Series paths only depend on the data and the view, not on the playhead
+  const series = useMemo(
+    () => (width ? renderSeries(data, scales) : null),
+    [data, view[0], view[1], width, height, yDomain[0], yDomain[1]]
+  );
+
+  const localX = (e: React.PointerEvent) => e.clientX - containerRef.current!.getBoundingClientRect().left;
+
+  const onPointerUp = (e: React.PointerEvent) => {
+    if (!drag) return;
+    const a = Math.min(drag.from, drag.to);
+    const b = Math.max(drag.from, drag.to);
+    setDrag(null);
+    if (b - a < CLICK_PX) {
+      onSeek(frameAtPx(localX(e)));
+      return;
+    }
+    const f0 = frameAtPx(a);
+    const f1 = frameAtPx(b);
+    if (f1 - f0 >= 2) setZoom([f0, f1]);
+  };
+
+  const xTicks = Array.from({ length: 6 }, (_, i) => view[0] + (i / 5) * spanF);
+  const playheadX = scales.x(currentFrame);
+  const hoverFrame = hoverPx !== null ? frameAtPx(hoverPx) : null;
+
+  return (
+    <div ref={containerRef} style={{ position: "relative", width: "100%", userSelect: "none" }}>
+      {zoom && (
+        <button
+          onClick={() => setZoom(null)}
+          style={{ position: "absolute", right: MARGIN.right, top: 0, fontSize: "11px", padding: "1px 6px", zIndex: 1, cursor: "pointer" }}
+        >
+          Reset zoom
+        </button>
+      )}
+      <svg
+        width={width}
+        height={height}
+        style={{ display: "block", cursor: "crosshair", touchAction: "none" }}
+        onPointerDown={e => {
+          e.currentTarget.setPointerCapture(e.pointerId);
+          const x = localX(e);
+          setDrag({ from: x, to: x });
+        }}
+        onPointerMove={e => {
+          const x = localX(e);
+          setHoverPx(x >= left && x <= right ? x : null);
+          if (drag) setDrag({ ...drag, to: x });
+        }}
+        onPointerUp={onPointerUp}
+        onPointerLeave={() => setHoverPx(null)}
+      >
+        <defs>
+          <clipPath id={clipId}>
+            <rect x={left} y={top} width={right - left} height={bottom - top} />
+          </clipPath>
+        </defs>
+
+        {yTicks.map(v => (
+          <g key={v}>
+            <line x1={left} x2={right} y1={scales.y(v)} y2={scales.y(v)} stroke="#e5e7eb" />
+            <text x={left - 4} y={scales.y(v) + 3} fontSize={10} fill="#666" textAnchor="end">{yFormat(v)}</text>
+          </g>
+        ))}
+        {xTicks.map((f, i) => (
+          <text key={i} x={scales.x(f)} y={height - 6} fontSize={10} fill="#666"
+            textAnchor={i === 0 ? "start" : i === xTicks.length - 1 ? "end" : "middle"}>
+            {formatClock(timeAt(f))}
+          </text>
+        ))}
+
+        <g clipPath={`url(#${clipId})`}>{series}</g>
+        {width > 0 && renderOverlay && <g clipPath={`url(#${clipId})`}>{renderOverlay(scales)}</g>}
+
+        {drag && Math.abs(drag.to - drag.from) >= CLICK_PX && (
+          <rect
+            x={Math.max(left, Math.min(drag.from, drag.to))}
+            y={top}
+            width={Math.min(right, Math.max(drag.from, drag.to)) - Math.max(left, Math.min(drag.from, drag.to))}
+            height={bottom - top}
+            fill="rgba(17, 24, 39, 0.12)"
+            stroke="rgba(17, 24, 39, 0.4)"
+          />
+        )}
+        {hoverPx !== null && !drag && (
+          <line x1={hoverPx} x2={hoverPx} y1={top} y2={bottom} stroke="rgba(17, 24, 39, 0.35)" strokeDasharray="3 3" />
+        )}
+        {playheadX >= left && playheadX <= right && (
+          <line x1={playheadX} x2={playheadX} y1={top} y2={bottom} stroke="#111827" strokeWidth={2} />
+        )}
+      </svg>
+
+      {hoverFrame !== null && renderReadout && !drag && (
+        <div style={{
+          position: "absolute",
+          top: MARGIN.top,
+          left: Math.min(hoverPx! + 10, Math.max(0, width - 180)),
+          padding: "2px 6px",
+          backgroundColor: "rgba(17, 24, 39, 0.85)",
+          color: "white",
+          fontSize: "11px",
+          borderRadius: 3,
+          pointerEvents: "none",
+          whiteSpace: "nowrap"
+        }}>
+          {formatClock(timeAt(hoverFrame))} · {renderReadout(hoverFrame)}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default TimeChart;
@@ -0,0 +1,45 @@
+import React from "react";
+
+interface TrackInfoProps {
+  objectId: number;
+  team: number | null;
+  className: string | null;
+  conf: number | null; // null when the object isn't detected in the current frame
+  teamColor?: string;
+  pinned?: boolean;
+  onClose?: () => void;
+  style?: React.CSSProperties;
+}
+
+// Small card describing one tracked object; used as the hover tooltip and the pinned selection
+const TrackInfo: React.FC<TrackInfoProps> = ({ objectId, team, className, conf, teamColor, pinned, onClose, style }) => (
+  <div style={{
+    padding: "6px 10px",
+    backgroundColor: "rgba(17, 24, 39, 0.9)",
+    color: "white",
+    borderRadius: "4px",
+    fontSize: "12px",
+    lineHeight: 1.5,
+    borderLeft: `4px solid ${teamColor || "#6b7280"}`,
+    minWidth: 120,
+    ...style
+  }}>
+    <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 8 }}>
+      <strong>Track #{objectId}</strong>
+      {pinned && onClose && (
+        <button
+          onClick={onClose}
+          title="Clear selection (Esc)"
+          style={{ background: "none", border: "none", color: "white", cursor: "pointer", padding: 0, fontSize: "14px" }}
+        >
+          ×
+        </button>
+      )}
+    </div>
+    <div>Team: {team ? `Team ${team}` : "unassigned"}</div>
+    <div>Class: {className || "unknown"}</div>
+    <div>Confidence: {conf !== null ? `${Math.round(conf * 100)}%` : "not in frame"}</div>
+  </div>
+);
+
+export default TrackInfo;
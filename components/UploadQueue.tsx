@@ -0,0 +1,203 @@
+import Link from "next/link";
+import React, { useEffect, useRef, useState } from "react";
+import { formatBytes, formatClock } from "../lib/format";
+import { clampParams, loadLastParams, presetName, saveLastParams, type PipelineParams } from "../lib/presets";
+import { getUploadQueue, type UploadItem } from "../lib/uploadQueue";
+import PipelineSettings from "./PipelineSettings";
+
+type Draft = { file: File; title: string };
+
+const STATUS_COLORS: Record<UploadItem["status"], string> = {
+  queued: "#6b7280",
+  uploading: "#0070f3",
+  waiting: "#d97706",
+  enqueuing: "#0070f3",
+  done: "#16a34a",
+  failed: "#dc2626",
+  canceled: "#6b7280",
+  interrupted: "#d97706",
+};
+
+const inputStyle: React.CSSProperties = {
+  width: "100%",
+  padding: "0.5rem",
+  border: "1px solid #ccc",
+  borderRadius: "4px"
+};
+
+const smallButton: React.CSSProperties = { padding: "2px 8px", fontSize: "12px", cursor: "pointer" };
+
+const titleFromFile = (name: string) => name.replace(/\.[^.]+$/, "").replace(/[_-]+/g, " ");
+
+function describe(item: UploadItem, now: number) {
+  switch (item.status) {
+    case "queued":
+      return item.match_id !== undefined ? "Uploaded · waiting to start processing" : "Waiting to upload";
+    case "uploading": {
+      const left = item.speed > 0 ? (item.size - item.loaded) / item.speed : null;
+      return `${formatBytes(item.loaded)} of ${formatBytes(item.size)}` +
+        (item.speed > 0 ? ` · ${formatBytes(item.speed)}/s` : "") +
+        (left !== null ? ` · ${formatClock(left)} left` : "");
+    }
+    case "waiting":
+      return `Retrying in ${Math.max(0, Math.ceil(((item.retry_at || now) - now) / 1000))} s (attempt ${item.attempts + 1}) — ${item.error}`;
+    case "enqueuing":
+      return "Starting processing…";
+    case "done":
+      return "Uploaded · processing started";
+    case "failed":
+      return item.error || "Failed";
+    case "canceled":
+      return "Canceled";
+    case "interrupted":
+      return "Interrupted by a page reload — select the same file to resume";
+  }
+}
+
+// Multi-file upload form plus the live queue. The queue itself lives in
+// lib/uploadQueue and keeps running across client-side page navigation.
+const UploadQueue: React.FC = () => {
+  const [items, setItems] = useState<UploadItem[]>([]);
+  const [drafts, setDrafts] = useState<Draft[]>([]);
+  const [now, setNow] = useState(Date.now());
+  const [reattachError, setReattachError] = useState<Record<string, string>>({});
+  const [params, setParams] = useState<PipelineParams | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    setParams(loadLastParams());
+    const queue = getUploadQueue();
+    setItems(queue.items());
+    return queue.subscribe(setItems);
+  }, []);
+
+  // Tick the retry countdowns
+  const waiting = items.some(it => it.status === "waiting");
+  useEffect(() => {
+    if (!waiting) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [waiting]);
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!drafts.length || !params) return;
+    const used = clampParams(params);
+    saveLastParams(used);
+    getUploadQueue().add(drafts.map(d => ({ file: d.file, title: d.title.trim() || titleFromFile(d.file.name) })), used);
+    setDrafts([]);
+    if (fileInput.current) fileInput.current.value = "";
+  };
+
+  const reattach = (item: UploadItem, file: File | undefined) => {
+    if (!file) return;
+    const ok = getUploadQueue().reattach(item.id, file);
+    setReattachError(prev => ({ ...prev, [item.id]: ok ? "" : `That is not ${item.file_name} (${formatBytes(item.size)})` }));
+  };
+
+  const queue = typeof window !== "undefined" ? getUploadQueue() : null;
+
+  return (
+    <div>
+      <form onSubmit={submit} style={{ marginTop: "1rem" }}>
+        <div style={{ marginBottom: "1rem" }}>
+          <label htmlFor="file" style={{ display: "block", marginBottom: "0.5rem" }}>Video Files:</label>
+          <input
+            ref={fileInput}
+            type="file"
+            id="file"
+            name="file"
+            multiple
+            accept="video/*"
+            onChange={e => setDrafts(Array.from(e.target.files || []).map(file => ({ file, title: titleFromFile(file.name) })))}
+            style={inputStyle}
+          />
+        </div>
+
+        {drafts.map((d, i) => (
+          <div key={`${d.file.name}-${i}`} style={{ marginBottom: "0.75rem" }}>
+            <label style={{ display: "block", marginBottom: "0.25rem", fontSize: "14px" }}>
+              Match Title <span style={{ color: "#666" }}>({d.file.name}, {formatBytes(d.file.size)})</span>
+            </label>
+            <input
+              type="text"
+              value={d.title}
+              required
+              onChange={e => setDrafts(drafts.map((x, j) => (j === i ? { ...x, title: e.target.value } : x)))}
+              style={inputStyle}
+            />
+          </div>
+        ))}
+
+        {params && <PipelineSettings value={params} onChange={setParams} />}
+
+        <button
+          type="submit"
+          disabled={!drafts.length}
+          style={{
+            padding: "0.5rem 1rem",
+            backgroundColor: drafts.length ? "#0070f3" : "#ccc",
+            color: "white",
+            border: "none",
+            borderRadius: "4px",
+            cursor: drafts.length ? "pointer" : "not-allowed"
+          }}
+        >
+          {drafts.length > 1 ? `Upload ${drafts.length} Videos` : "Upload Video"}
+        </button>
+      </form>
+
+      {items.length > 0 && (
+        <ul style={{ listStyle: "none", padding: 0, marginTop: "1rem" }}>
+          {items.map(item => {
+            const pct = item.size ? Math.min(100, (item.loaded / item.size) * 100) : 0;
+            const active = item.status === "queued" || item.status === "uploading" || item.status === "waiting" || item.status === "enqueuing";
+            const finished = item.status === "done" || item.status === "failed" || item.status === "canceled" || item.status === "interrupted";
+            return (
+              <li key={item.id} style={{ padding: "0.75rem", marginBottom: "0.5rem", border: "1px solid #e5e7eb", borderRadius: "4px" }}>
+                <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 8 }}>
+                  <div>
+                    <strong>{item.title}</strong>{" "}
+                    <span style={{ color: "#666", fontSize: "12px" }}>
+                      {item.file_name} · {formatBytes(item.size)} · {presetName(item.params) ?? "custom settings"}
+                    </span>
+                  </div>
+                  <div style={{ display: "flex", gap: 6 }}>
+                    {active && queue?.ownedHere(item.id) && <button style={smallButton} onClick={() => queue.cancel(item.id)}>Cancel</button>}
+                    {active && queue && !queue.ownedHere(item.id) && <span style={{ color: "#666", fontSize: "12px" }}>in another tab</span>}
+                    {(item.status === "failed" || item.status === "canceled") && queue?.canRetry(item.id) && (
+                      <button style={smallButton} onClick={() => queue.retry(item.id)}>Retry</button>
+                    )}
+                    {finished && <button style={smallButton} onClick={() => queue?.remove(item.id)}>Remove</button>}
+                  </div>
+                </div>
+
+                {item.match_id === undefined && item.status !== "interrupted" && (
+                  <div style={{ height: 6, marginTop: 6, backgroundColor: "#e5e7eb", borderRadius: 3, overflow: "hidden" }}>
+                    <div style={{ width: `${pct}%`, height: "100%", backgroundColor: STATUS_COLORS[item.status], transition: "width 0.2s" }} />
+                  </div>
+                )}
+
+                <div style={{ marginTop: 4, fontSize: "12px", color: STATUS_COLORS[item.status] }}>
+                  {describe(item, now)}
+                  {item.status === "done" && item.match_id !== undefined && (
+                    <> · <Link href={`/match/${item.match_id}`}>open match #{item.match_id}</Link></>
+                  )}
+                </div>
+
+                {item.status === "interrupted" && (
+                  <div style={{ marginTop: 4, fontSize: "12px" }}>
+                    <input type="file" accept="video/*" onChange={e => reattach(item, e.target.files?.[0])} />
+                    {reattachError[item.id] && <span style={{ color: "#dc2626" }}> {reattachError[item.id]}</span>}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default UploadQueue;
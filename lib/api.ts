@@ -0,0 +1,167 @@
+import type {
+  ControlZoneData,
+  Detection,
+  EnqueuedJob,
+  HomographySegment,
+  JobStatus,
+  Match,
+  MomentumData,
+  PossessionData,
+  Track,
+} from "./types";
+
+const API_BASE = process.env.NEXT_PUBLIC_API_BASE || "";
+
+type Query = Record<string, string | number | boolean | undefined>;
+
+export class ApiError extends Error {
+  status: number; // 0 when the request never reached the server
+  path: string;
+
+  constructor(message: string, status: number, path: string) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.path = path;
+  }
+}
+
+export const apiUrl = (path: string, query?: Query) => {
+  const params = Object.entries(query || {})
+    .filter(([, v]) => v !== undefined)
+    .map(([k, v]) => `${encodeURIComponent(k)}=${encodeURIComponent(String(v))}`)
+    .join("&");
+  return `${API_BASE}${path}${params ? `?${params}` : ""}`;
+};
+
+async function request<T>(path: string, init: RequestInit & { query?: Query } = {}): Promise<T> {
+  const { query, ...rest } = init;
+  let r: Response;
+  try {
+    r = await fetch(apiUrl(path, query), rest);
+  } catch (e) {
+    throw new ApiError(e instanceof Error ? e.message : "Network error", 0, path);
+  }
+
+  return parseBody<T>(r.ok, r.status, r.statusText, await r.text(), path);
+}
+
+// Shared by fetch and XHR requests: FastAPI errors carry a `detail` field
+function parseBody<T>(ok: boolean, status: number, statusText: string, text: string, path: string): T {
+  if (!ok) {
+    let detail = text;
+    try { detail = JSON.parse(text).detail ?? text; } catch { /* plain-text error body */ }
+    throw new ApiError(detail || `${status} ${statusText}`, status, path);
+  }
+  if (!text) return undefined as T;
+  try {
+    return JSON.parse(text) as T;
+  } catch {
+    throw new ApiError("Invalid JSON response", status, path);
+  }
+}
+
+// --- matches ---
+
+export const listMatches = () => request<Match[]>("/matches");
+
+// Backends without GET /matches/{id} answer 404 or 405; the list still has the match
+export async function getMatch(matchId: number): Promise<Match> {
+  try {
+    return await request<Match>(`/matches/${matchId}`);
+  } catch (e) {
+    if (!(e instanceof ApiError) || (e.status !== 404 && e.status !== 405)) throw e;
+    const match = (await listMatches()).find(m => m.id === matchId);
+    if (!match) throw e;
+    return match;
+  }
+}
+
+export const renameMatch = (matchId: number, title: string) =>
+  request<Match>(`/matches/${matchId}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ title }),
+  });
+
+// Removes the match with its video, detections and analytics
+export const deleteMatch = (matchId: number) =>
+  request<void>(`/matches/${matchId}`, { method: "DELETE" });
+
+// XHR rather than fetch: only XHR reports upload progress
+export function uploadVideo(
+  form: FormData,
+  opts: { onProgress?: (loaded: number, total: number) => void; signal?: AbortSignal } = {}
+): Promise<Match> {
+  const path = "/ingest/video";
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    const abort = () => xhr.abort();
+    const done = () => opts.signal?.removeEventListener("abort", abort);
+    xhr.open("POST", apiUrl(path));
+    xhr.upload.onprogress = e => opts.onProgress?.(e.loaded, e.lengthComputable ? e.total : 0);
+    xhr.onload = () => {
+      done();
+      try {
+        resolve(parseBody<Match>(xhr.status >= 200 && xhr.status < 300, xhr.status, xhr.statusText, xhr.responseText, path));
+      } catch (e) {
+        reject(e);
+      }
+    };
+    xhr.onerror = () => { done(); reject(new ApiError("Network error", 0, path)); };
+    xhr.onabort = () => { done(); reject(new DOMException("Upload canceled", "AbortError")); };
+    if (opts.signal?.aborted) return reject(new DOMException("Upload canceled", "AbortError"));
+    opts.signal?.addEventListener("abort", abort, { once: true });
+    xhr.send(form);
+  });
+}
+
+export const getDetections = (matchId: number) =>
+  request<Detection[]>(`/matches/${matchId}/detections`);
+
+export const getTracks = (matchId: number) =>
+  request<Track[]>(`/matches/${matchId}/tracks`);
+
+export const getHomography = async (matchId: number) =>
+  (await request<HomographySegment[] | null>(`/matches/${matchId}/homography`)) || [];
+
+export const assignTeams = (matchId: number) =>
+  request<void>("/teams/assign", { method: "POST", query: { match_id: matchId } });
+
+// --- jobs ---
+
+export const enqueuePipeline = (matchId: number, params: { conf_thres: number }) =>
+  request<EnqueuedJob>("/jobs/pipeline", { method: "POST", query: { match_id: matchId, ...params } });
+
+export const getJob = (jobId: string, opts: { signal?: AbortSignal } = {}) =>
+  request<JobStatus>(`/jobs/${jobId}`, { signal: opts.signal });
+
+// Server-Sent Events: a "status" event carrying a JobStatus on every change
+export const jobEventsUrl = (jobId: string) => apiUrl(`/jobs/${jobId}/events`);
+
+// Returns the job's status after cancelling; 409 once it has already settled
+export const cancelJob = (jobId: string) =>
+  request<JobStatus>(`/jobs/${jobId}/cancel`, { method: "POST" });
+
+// --- analytics ---
+
+export const runPositions = (matchId: number) =>
+  request<void>("/analytics/positions", { method: "POST", query: { match_id: matchId } });
+
+export const runPossession = (matchId: number, params: { max_dist_m: number }) =>
+  request<void>("/analytics/possession", { method: "POST", query: { match_id: matchId, ...params } });
+
+export const runControlZones = (matchId: number, params: { stride: number }) =>
+  request<void>("/analytics/control_zones", { method: "POST", query: { match_id: matchId, ...params } });
+
+export const runMomentum = (matchId: number, params: { stride: number }) =>
+  request<void>("/analytics/momentum", { method: "POST", query: { match_id: matchId, ...params } });
+
+export const getPossession = (matchId: number) =>
+  request<PossessionData>(`/analytics/${matchId}/possession`);
+
+export const getControlZones = (matchId: number) =>
+  request<ControlZoneData>(`/analytics/${matchId}/control_zones`);
+
+export const getMomentum = (matchId: number) =>
+  request<MomentumData>(`/analytics/${matchId}/momentum`);
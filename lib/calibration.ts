@@ -0,0 +1,28 @@
+// Hand-corrected homography segments per match, kept in localStorage like the
+// team overrides. They replace the backend's segments over their frame range.
+import type { HomographySegment } from "./types";
+
+const calibrationKey = (matchId: number) => `fe:calibration:${matchId}`;
+
+export function loadCalibration(matchId: number): HomographySegment[] {
+  try { return JSON.parse(localStorage.getItem(calibrationKey(matchId)) || "[]"); } catch { return []; }
+}
+export function saveCalibration(matchId: number, segments: HomographySegment[]) {
+  if (segments.length) localStorage.setItem(calibrationKey(matchId), JSON.stringify(segments));
+  else localStorage.removeItem(calibrationKey(matchId));
+}
+
+// Lays `top` over `base`: base segments are trimmed or split around every top segment
+export function mergeSegments(base: HomographySegment[], top: HomographySegment[]): HomographySegment[] {
+  let out = base.slice();
+  for (const t of top) {
+    const next: HomographySegment[] = [];
+    for (const s of out) {
+      if (s.frame_end < t.frame_start || s.frame_start > t.frame_end) { next.push(s); continue; }
+      if (s.frame_start < t.frame_start) next.push({ ...s, frame_end: t.frame_start - 1 });
+      if (s.frame_end > t.frame_end) next.push({ ...s, frame_start: t.frame_end + 1 });
+    }
+    out = next;
+  }
+  return out.concat(top).sort((a, b) => a.frame_start - b.frame_start);
+}
@@ -0,0 +1,231 @@
+// Records an in/out range of the match video with the overlay (and optionally
+// the radar) composited on top. The range plays in real time while each
+// presented frame is copied to an off-screen canvas that MediaRecorder encodes
+// to WebM. The overlay is redrawn by the page's own `drawOverlay` just before
+// each copy, so the clip shows exactly the layers that are switched on.
+// Snapshots reuse the same composite.
+// Frames are read from a second copy of the video requested with CORS; the
+// player itself stays without `crossOrigin`, so hosts that send no CORS headers
+// still play, and only exporting is refused.
+import { subscribeVideoFrames } from "./videoFrames";
+
+export type ClipOptions = {
+  video: HTMLVideoElement; // the player; paused while the clip records
+  overlay: HTMLCanvasElement;
+  radar: HTMLCanvasElement | null; // drawn picture-in-picture when given
+  drawOverlay: (mediaTime: number) => void; // renders the overlay for the frame about to be recorded
+  start: number; // media time, seconds
+  end: number;
+  onProgress: (fraction: number) => void;
+  signal?: AbortSignal;
+};
+
+export type Clip = { blob: Blob; mimeType: string };
+
+// The whole recording is buffered in memory until it stops
+export const MAX_CLIP_S = 300;
+
+const MIME_TYPES = ["video/webm;codecs=vp9", "video/webm;codecs=vp8", "video/webm"];
+const MAX_WIDTH = 1280;
+const BITRATE = 8_000_000;
+const RADAR_SCALE = 0.3; // of the clip width
+const RADAR_MARGIN = 12;
+const RADAR_BACKGROUND = "#2e8b57"; // the radar canvas only draws lines and players
+
+const CORS_MESSAGE = "The video host does not allow export: it sends no CORS headers for the video";
+const LOAD_MESSAGE = "Could not load the video for export; the video host may not allow cross-origin access (CORS)";
+
+const recordableType = () =>
+  typeof MediaRecorder === "undefined" ? undefined : MIME_TYPES.find(t => MediaRecorder.isTypeSupported(t));
+
+export const clipSupported = () =>
+  typeof HTMLCanvasElement !== "undefined" && typeof HTMLCanvasElement.prototype.captureStream === "function" && !!recordableType();
+
+const canceled = () => new DOMException("Export canceled", "AbortError");
+
+// Resolves on `event`, rejects with `error` if the video fails first
+const once = (video: HTMLVideoElement, event: string, error: string) => new Promise<void>((resolve, reject) => {
+  const done = (failed: boolean) => {
+    video.removeEventListener(event, onEvent);
+    video.removeEventListener("error", onError);
+    if (failed) reject(new Error(error));
+    else resolve();
+  };
+  const onEvent = () => done(false);
+  const onError = () => done(true);
+  video.addEventListener(event, onEvent);
+  video.addEventListener("error", onError);
+});
+
+const seekTo = (video: HTMLVideoElement, t: number) => {
+  const seeked = once(video, "seeked", "Could not seek the video");
+  video.currentTime = t;
+  return seeked;
+};
+
+// Muted CORS copy of the player's video, loaded and kept in the page (1px,
+// transparent) so browsers keep decoding and presenting its frames
+async function openSource(player: HTMLVideoElement): Promise<HTMLVideoElement> {
+  const video = document.createElement("video");
+  video.crossOrigin = "anonymous"; // before src, or the first request goes out without CORS
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = "auto";
+  video.style.cssText = "position:fixed;left:0;top:0;width:1px;height:1px;opacity:0;pointer-events:none";
+  video.src = player.currentSrc || player.src;
+  document.body.appendChild(video);
+  try {
+    // A host without CORS headers fails the request outright
+    await once(video, "loadeddata", LOAD_MESSAGE);
+  } catch (e) {
+    closeSource(video);
+    throw e;
+  }
+  return video;
+}
+
+function closeSource(video: HTMLVideoElement) {
+  video.pause();
+  video.removeAttribute("src");
+  video.load();
+  video.remove();
+}
+
+// Video frame with the overlay on top and the radar picture-in-picture, on an
+// off-screen canvas at the video's resolution (capped at MAX_WIDTH)
+function createCompositor(video: HTMLVideoElement, overlay: HTMLCanvasElement, radar: HTMLCanvasElement | null) {
+  // Encoders want even dimensions
+  const scale = Math.min(1, MAX_WIDTH / (video.videoWidth || MAX_WIDTH));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(((video.videoWidth || MAX_WIDTH) * scale) / 2) * 2;
+  canvas.height = Math.round(((video.videoHeight || (MAX_WIDTH * 9) / 16) * scale) / 2) * 2;
+  const ctx = canvas.getContext("2d")!;
+
+  const draw = () => {
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+    if (overlay.width && overlay.height) ctx.drawImage(overlay, 0, 0, canvas.width, canvas.height);
+    if (radar?.width && radar.height) {
+      const w = Math.round(canvas.width * RADAR_SCALE);
+      const h = Math.round((w * radar.height) / radar.width);
+      const x = canvas.width - w - RADAR_MARGIN;
+      const y = canvas.height - h - RADAR_MARGIN;
+      ctx.fillStyle = RADAR_BACKGROUND;
+      ctx.fillRect(x, y, w, h);
+      ctx.drawImage(radar, x, y, w, h);
+    }
+  };
+  // A cross-origin video taints the canvas, and reading it back throws
+  const readable = () => {
+    try {
+      ctx.getImageData(0, 0, 1, 1);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+  return { canvas, draw, readable };
+}
+
+// PNG of the frame currently on screen; the player pauses so the overlay stays on that frame
+export async function exportSnapshot(video: HTMLVideoElement, overlay: HTMLCanvasElement, radar: HTMLCanvasElement | null): Promise<Blob> {
+  video.pause();
+  const source = await openSource(video);
+  try {
+    await seekTo(source, video.currentTime);
+    const compositor = createCompositor(source, overlay, radar);
+    compositor.draw();
+    if (!compositor.readable()) throw new Error(CORS_MESSAGE);
+    return await new Promise<Blob>((resolve, reject) => {
+      compositor.canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error("Could not encode the snapshot"))), "image/png");
+    });
+  } finally {
+    closeSource(source);
+  }
+}
+
+export async function exportClip(opts: ClipOptions): Promise<Clip> {
+  const { video, overlay, radar, drawOverlay, start, end, signal } = opts;
+  const mimeType = recordableType();
+  if (!mimeType || !clipSupported()) throw new Error("This browser can't record video from a canvas");
+  if (!(end > start)) throw new Error("The out point must be after the in point");
+  if (end - start > MAX_CLIP_S) throw new Error(`Clips are limited to ${MAX_CLIP_S / 60} minutes`);
+
+  video.pause();
+  const source = await openSource(video);
+  try {
+    await seekTo(source, start);
+    if (signal?.aborted) throw canceled();
+    const { canvas, draw: composite, readable } = createCompositor(source, overlay, radar);
+    drawOverlay(source.currentTime);
+    composite();
+    if (!readable()) throw new Error(CORS_MESSAGE);
+    return await record(opts, source, canvas, composite, mimeType);
+  } finally {
+    closeSource(source);
+  }
+}
+
+function record(
+  opts: ClipOptions,
+  source: HTMLVideoElement,
+  canvas: HTMLCanvasElement,
+  composite: () => void,
+  mimeType: string
+): Promise<Clip> {
+  const { video, drawOverlay, start, end, onProgress, signal } = opts;
+  // Frames are pushed one per presented video frame instead of sampled on a timer
+  const stream = canvas.captureStream(0);
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: BITRATE });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = e => { if (e.data.size) chunks.push(e.data); };
+
+  return new Promise<Clip>((resolve, reject) => {
+    let settled = false;
+    let unsubscribe = () => {};
+    const finish = (error?: Error) => {
+      if (settled) return;
+      settled = true;
+      unsubscribe();
+      source.removeEventListener("ended", onEnded);
+      video.removeEventListener("play", onPlayer);
+      video.removeEventListener("seeking", onPlayer);
+      signal?.removeEventListener("abort", onAbort);
+      source.pause();
+      const stopped = () => {
+        track.stop();
+        if (error) reject(error);
+        else resolve({ blob: new Blob(chunks, { type: mimeType }), mimeType });
+      };
+      if (recorder.state === "inactive") stopped();
+      else {
+        recorder.onstop = stopped;
+        recorder.stop();
+      }
+    };
+    const onAbort = () => finish(canceled());
+    const onEnded = () => finish();
+    // The overlay follows the recording, so the player can't be used meanwhile
+    const onPlayer = () => finish(new Error("The player was used during the export"));
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+    source.addEventListener("ended", onEnded);
+    video.addEventListener("play", onPlayer);
+    video.addEventListener("seeking", onPlayer);
+    recorder.onerror = () => finish(new Error("Recording failed"));
+
+    unsubscribe = subscribeVideoFrames(source, mediaTime => {
+      if (mediaTime >= end) {
+        onProgress(1);
+        finish();
+        return;
+      }
+      drawOverlay(mediaTime);
+      composite();
+      track.requestFrame();
+      onProgress(Math.max(0, (mediaTime - start) / (end - start)));
+    });
+    recorder.start(1000);
+    source.play().catch(e => finish(e instanceof Error ? e : new Error("Playback failed")));
+  });
+}
@@ -0,0 +1,116 @@
+// Downloadable views of a match's data for notebooks: detections in
+// MOTChallenge text format, projected pitch positions as CSV, and the analytics
+// series as CSV or JSON. Serializers return an array of lines handed straight
+// to a Blob, so multi-million-row exports never build one giant string.
+import type { DetectionStore } from "./detectionStore";
+import { projectImageToPitch } from "./homography";
+import type { FrameCalibration, HomographyTimeline } from "./homographyTimeline";
+import { timeAtFrame } from "./videoFrames";
+
+export type ExportFilter = {
+  from: number | null; // frames, inclusive; null is open-ended
+  to: number | null;
+  classes: string[] | null; // detection classes to keep; null keeps all
+};
+
+export type SeriesKind = "possession" | "control_zones" | "momentum";
+
+type SeriesRow = { frame_id: number };
+
+export const seriesInRange = <T extends SeriesRow>(series: T[], f: ExportFilter) =>
+  series.filter(r => (f.from === null || r.frame_id >= f.from) && (f.to === null || r.frame_id <= f.to));
+
+// Quote cells that would otherwise break the row
+const cell = (v: string | number | null | undefined) => {
+  if (v === null || v === undefined) return "";
+  const s = String(v);
+  return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+const row = (values: (string | number | null | undefined)[]) => values.map(cell).join(",") + "\n";
+
+const detectionsIn = (store: DetectionStore, f: ExportFilter) => {
+  const rows = store.inRange(f.from ?? store.firstFrame, f.to ?? store.lastFrame);
+  if (!f.classes) return rows;
+  const keep = new Set(f.classes);
+  return rows.filter(d => keep.has(d.class_name));
+};
+
+export function detectionClasses(store: DetectionStore): string[] {
+  const names = new Set<string>();
+  for (const d of store.inRange(store.firstFrame, store.lastFrame)) names.add(d.class_name);
+  return Array.from(names).sort();
+}
+
+// <frame>,<id>,<bb_left>,<bb_top>,<bb_width>,<bb_height>,<conf>,<x>,<y>,<z>
+// MOT frames start at 1 and untracked boxes get id -1; world coordinates are unused
+export function motLines(store: DetectionStore, f: ExportFilter): string[] {
+  return detectionsIn(store, f).map(d => [
+    d.frame_id + 1,
+    d.object_id ?? -1,
+    d.x1.toFixed(2),
+    d.y1.toFixed(2),
+    (d.x2 - d.x1).toFixed(2),
+    (d.y2 - d.y1).toFixed(2),
+    d.conf.toFixed(4),
+    -1, -1, -1,
+  ].join(",") + "\n");
+}
+
+// Foot point of every tracked box in pitch metres. Frames without calibration are
+// left out; `calibration` says whether the matrix was measured or bridged.
+export function positionLines(
+  store: DetectionStore,
+  tracksMap: Record<number, number>,
+  timeline: HomographyTimeline,
+  fps: number,
+  frameOffset: number,
+  f: ExportFilter
+): string[] {
+  const lines = [row(["frame_id", "time_s", "object_id", "class_name", "team", "x_m", "y_m", "calibration"])];
+  let calib: FrameCalibration | null = null;
+  let calibFrame = -1;
+  for (const d of detectionsIn(store, f)) {
+    if (d.object_id === null) continue;
+    if (d.frame_id !== calibFrame) {
+      calibFrame = d.frame_id;
+      calib = timeline.at(calibFrame);
+    }
+    if (!calib?.H) continue;
+    const p = projectImageToPitch(calib.H, (d.x1 + d.x2) / 2, d.y2);
+    if (!p) continue;
+    lines.push(row([
+      d.frame_id,
+      timeAtFrame(d.frame_id, fps, frameOffset).toFixed(3),
+      d.object_id,
+      d.class_name,
+      tracksMap[d.object_id] || null,
+      p.x.toFixed(2),
+      p.y.toFixed(2),
+      calib.source === "segment" ? calib.confidence : calib.source,
+    ]));
+  }
+  return lines;
+}
+
+// Columns come from the rows themselves, so new backend fields export as-is
+export function seriesCsvLines(series: SeriesRow[], f: ExportFilter): string[] {
+  const rows = seriesInRange(series, f);
+  const columns = rows.length ? Object.keys(rows[0]) : ["frame_id"];
+  return [row(columns), ...rows.map(r => row(columns.map(c => (r as Record<string, string | number | null>)[c])))];
+}
+
+export function seriesJson(kind: SeriesKind, matchId: number, series: SeriesRow[], f: ExportFilter): string {
+  return JSON.stringify({ match_id: matchId, kind, from: f.from, to: f.to, series: seriesInRange(series, f) });
+}
+
+export function downloadFile(name: string, parts: BlobPart[], type: string) {
+  const url = URL.createObjectURL(new Blob(parts, { type }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = name;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  // Give the browser a moment to start the download before freeing it
+  setTimeout(() => URL.revokeObjectURL(url), 10_000);
+}
@@ -0,0 +1,72 @@
+// Frame-indexed view over a match's detections. Built once when detections
+// load so per-frame drawing never scans the full (multi-million row) array.
+import type { Detection } from "./types";
+
+export type DetectionStore = {
+  size: number;
+  firstFrame: number;
+  lastFrame: number;
+  byFrame: (frame: number) => Detection[];
+  inRange: (start: number, end: number) => Detection[]; // inclusive, ordered by frame
+  byObject: (objectId: number) => Detection[]; // ordered by frame
+  classOf: (objectId: number) => string | undefined;
+  objectIds: () => number[];
+};
+
+const EMPTY: Detection[] = [];
+
+export function buildDetectionStore(rows: Detection[]): DetectionStore {
+  const sorted = rows.slice().sort((a, b) => a.frame_id - b.frame_id);
+  const firstFrame = sorted.length ? sorted[0].frame_id : 0;
+  const lastFrame = sorted.length ? sorted[sorted.length - 1].frame_id : -1;
+
+  // offsets[f - firstFrame] is the index of the first row at frame >= f
+  const span = lastFrame - firstFrame + 1;
+  const offsets = new Int32Array(Math.max(0, span) + 1);
+  let i = 0;
+  for (let f = 0; f < span; f++) {
+    offsets[f] = i;
+    while (i < sorted.length && sorted[i].frame_id === firstFrame + f) i++;
+  }
+  offsets[span > 0 ? span : 0] = sorted.length;
+
+  const objects = new Map<number, Detection[]>();
+  const classCounts = new Map<number, Record<string, number>>();
+  for (const d of sorted) {
+    if (d.object_id === null) continue;
+    let list = objects.get(d.object_id);
+    if (!list) objects.set(d.object_id, (list = []));
+    list.push(d);
+    let counts = classCounts.get(d.object_id);
+    if (!counts) classCounts.set(d.object_id, (counts = {}));
+    counts[d.class_name] = (counts[d.class_name] || 0) + 1;
+  }
+
+  // A track's class is whatever the detector called it most often
+  const classes = new Map<number, string>();
+  classCounts.forEach((counts, objectId) => {
+    let best = "";
+    for (const [name, n] of Object.entries(counts)) {
+      if (!best || n > counts[best]) best = name;
+    }
+    classes.set(objectId, best);
+  });
+
+  const inRange = (start: number, end: number) => {
+    const s = Math.max(Math.floor(start), firstFrame);
+    const e = Math.min(Math.floor(end), lastFrame);
+    if (s > e) return EMPTY;
+    return sorted.slice(offsets[s - firstFrame], offsets[e - firstFrame + 1]);
+  };
+
+  return {
+    size: sorted.length,
+    firstFrame,
+    lastFrame,
+    byFrame: frame => inRange(frame, frame),
+    inRange,
+    byObject: objectId => objects.get(objectId) || EMPTY,
+    classOf: objectId => classes.get(objectId),
+    objectIds: () => Array.from(objects.keys()),
+  };
+}
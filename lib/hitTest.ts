@@ -0,0 +1,37 @@
+// Hit regions recorded while drawing a canvas, so pointer events can be
+// mapped back to the object_id under the cursor.
+
+export type HitTarget = {
+  object_id: number;
+  cx: number;
+  cy: number;
+  rx: number;
+  ry: number;
+  box?: { x1: number; y1: number; x2: number; y2: number }; // also counts as a hit
+};
+
+// Closest target (by normalised ellipse distance) containing the point
+export function hitTest(targets: HitTarget[], x: number, y: number): number | null {
+  let best: number | null = null;
+  let bestDist = Infinity;
+  for (const t of targets) {
+    const nx = (x - t.cx) / Math.max(t.rx, 1);
+    const ny = (y - t.cy) / Math.max(t.ry, 1);
+    const dist = Math.sqrt(nx * nx + ny * ny);
+    const inBox = !!t.box && x >= t.box.x1 && x <= t.box.x2 && y >= t.box.y1 && y <= t.box.y2;
+    if ((dist <= 1 || inBox) && dist < bestDist) {
+      best = t.object_id;
+      bestDist = dist;
+    }
+  }
+  return best;
+}
+
+// Canvas-space pointer position, accounting for CSS scaling of the canvas
+export const canvasPoint = (canvas: HTMLCanvasElement, e: { clientX: number; clientY: number }) => {
+  const rect = canvas.getBoundingClientRect();
+  return {
+    x: ((e.clientX - rect.left) / rect.width) * canvas.width,
+    y: ((e.clientY - rect.top) / rect.height) * canvas.height,
+  };
+};
@@ -0,0 +1,218 @@
+// 3x3 homography helpers shared by the match page and the mock backend.
+
+export const invert3x3 = (m: number[][]): number[][] | null => {
+  const det =
+    m[0][0] * (m[1][1] * m[2][2] - m[1][2] * m[2][1]) -
+    m[0][1] * (m[1][0] * m[2][2] - m[1][2] * m[2][0]) +
+    m[0][2] * (m[1][0] * m[2][1] - m[1][1] * m[2][0]);
+
+  if (!isFinite(det) || Math.abs(det) < 1e-12) return null;
+  const invDet = 1 / det;
+
+  // Adjugate matrix (cofactor matrix transposed)
+  const adj = [
+    [
+      (m[1][1] * m[2][2] - m[1][2] * m[2][1]),
+      -(m[0][1] * m[2][2] - m[0][2] * m[2][1]),
+      (m[0][1] * m[1][2] - m[0][2] * m[1][1])
+    ],
+    [
+      -(m[1][0] * m[2][2] - m[1][2] * m[2][0]),
+      (m[0][0] * m[2][2] - m[0][2] * m[2][0]),
+      -(m[0][0] * m[1][2] - m[0][2] * m[1][0])
+    ],
+    [
+      (m[1][0] * m[2][1] - m[1][1] * m[2][0]),
+      -(m[0][0] * m[2][1] - m[0][1] * m[2][0]),
+      (m[0][0] * m[1][1] - m[0][1] * m[1][0])
+    ]
+  ];
+
+  // Multiply adjugate by 1/det
+  return adj.map(row => row.map(val => val * invDet));
+};
+
+export const projectPitchToImage = (Hinv: number[][], X: number, Y: number) => {
+  // multiply [X,Y,1]^T by Hinv
+  const x = Hinv[0][0]*X + Hinv[0][1]*Y + Hinv[0][2]*1;
+  const y = Hinv[1][0]*X + Hinv[1][1]*Y + Hinv[1][2]*1;
+  const w = Hinv[2][0]*X + Hinv[2][1]*Y + Hinv[2][2]*1;
+  if (!isFinite(w) || Math.abs(w) < 1e-9) return null;
+  return { x: x / w, y: y / w }; // image pixel coords
+};
+
+export const projectImageToPitch = (H: number[][], x: number, y: number) => {
+  const w = H[2][0] * x + H[2][1] * y + H[2][2];
+  if (Math.abs(w) < 1e-10) return null;
+  return {
+    x: (H[0][0] * x + H[0][1] * y + H[0][2]) / w,
+    y: (H[1][0] * x + H[1][1] * y + H[1][2]) / w,
+  }; // pitch metres
+};
+
+const multiply3x3 = (a: number[][], b: number[][]) =>
+  a.map(row => [0, 1, 2].map(j => row[0] * b[0][j] + row[1] * b[1][j] + row[2] * b[2][j]));
+
+// Similarity transform moving points to their centroid with mean distance sqrt(2)
+const normalizer = (pts: [number, number][]) => {
+  const cx = pts.reduce((a, p) => a + p[0], 0) / pts.length;
+  const cy = pts.reduce((a, p) => a + p[1], 0) / pts.length;
+  const mean = pts.reduce((a, p) => a + Math.hypot(p[0] - cx, p[1] - cy), 0) / pts.length || 1;
+  const s = Math.SQRT2 / mean;
+  return [[s, 0, -s * cx], [0, s, -s * cy], [0, 0, 1]];
+};
+
+// Solves A x = b in place (Gaussian elimination, partial pivoting)
+const solveLinear = (A: number[][], b: number[]): number[] | null => {
+  const n = b.length;
+  for (let c = 0; c < n; c++) {
+    let pivot = c;
+    for (let r = c + 1; r < n; r++) if (Math.abs(A[r][c]) > Math.abs(A[pivot][c])) pivot = r;
+    if (Math.abs(A[pivot][c]) < 1e-10) return null;
+    [A[c], A[pivot]] = [A[pivot], A[c]];
+    [b[c], b[pivot]] = [b[pivot], b[c]];
+    for (let r = c + 1; r < n; r++) {
+      const k = A[r][c] / A[c][c];
+      for (let j = c; j < n; j++) A[r][j] -= k * A[c][j];
+      b[r] -= k * b[c];
+    }
+  }
+  const x = new Array(n).fill(0);
+  for (let r = n - 1; r >= 0; r--) {
+    let s = b[r];
+    for (let j = r + 1; j < n; j++) s -= A[r][j] * x[j];
+    x[r] = s / A[r][r];
+  }
+  return x;
+};
+
+export type Correspondence = { img: [number, number]; pitch: [number, number] };
+
+// Normalised DLT: least-squares H (image pixels -> pitch metres) from four or
+// more correspondences. Null when the points are degenerate (e.g. collinear).
+export const estimateHomography = (pairs: Correspondence[]): number[][] | null => {
+  if (pairs.length < 4) return null;
+  const Ti = normalizer(pairs.map(p => p.img));
+  const Tp = normalizer(pairs.map(p => p.pitch));
+  const apply = (T: number[][], [x, y]: [number, number]) => [T[0][0] * x + T[0][2], T[1][1] * y + T[1][2]];
+
+  // Normal equations of the 8-unknown system with h33 = 1
+  const AtA = Array.from({ length: 8 }, () => new Array(8).fill(0));
+  const Atb = new Array(8).fill(0);
+  const addRow = (row: number[], rhs: number) => {
+    for (let i = 0; i < 8; i++) {
+      Atb[i] += row[i] * rhs;
+      for (let j = 0; j < 8; j++) AtA[i][j] += row[i] * row[j];
+    }
+  };
+  for (const p of pairs) {
+    const [x, y] = apply(Ti, p.img);
+    const [X, Y] = apply(Tp, p.pitch);
+    addRow([x, y, 1, 0, 0, 0, -x * X, -y * X], X);
+    addRow([0, 0, 0, x, y, 1, -x * Y, -y * Y], Y);
+  }
+  const h = solveLinear(AtA, Atb);
+  if (!h || h.some(v => !isFinite(v))) return null;
+
+  const TpInv = invert3x3(Tp);
+  if (!TpInv) return null;
+  const H = multiply3x3(multiply3x3(TpInv, [[h[0], h[1], h[2]], [h[3], h[4], h[5]], [h[6], h[7], 1]]), Ti);
+  if (Math.abs(H[2][2]) < 1e-12 || !invert3x3(H)) return null;
+  return H.map(row => row.map(v => v / H[2][2]));
+};
+
+// Distance in image pixels between each clicked point and its pitch point projected back through H
+export const reprojectionErrors = (H: number[][], pairs: Correspondence[]) => {
+  const Hinv = invert3x3(H);
+  const errors = pairs.map(p => {
+    const q = Hinv && projectPitchToImage(Hinv, p.pitch[0], p.pitch[1]);
+    return q ? Math.hypot(q.x - p.img[0], q.y - p.img[1]) : Infinity;
+  });
+  const rms = errors.length ? Math.sqrt(errors.reduce((a, e) => a + e * e, 0) / errors.length) : 0;
+  return { errors, rms };
+};
+
+type Pt = [number, number];
+
+// Liang–Barsky: the part of segment a-b inside the rectangle, or null
+const clipToRect = (a: Pt, b: Pt, x0: number, y0: number, x1: number, y1: number): [Pt, Pt] | null => {
+  const dx = b[0] - a[0];
+  const dy = b[1] - a[1];
+  let t0 = 0;
+  let t1 = 1;
+  const edges: [number, number][] = [[-dx, a[0] - x0], [dx, x1 - a[0]], [-dy, a[1] - y0], [dy, y1 - a[1]]];
+  for (const [p, q] of edges) {
+    if (p === 0) { if (q < 0) return null; continue; }
+    const r = q / p;
+    if (p < 0) { if (r > t1) return null; if (r > t0) t0 = r; }
+    else { if (r < t0) return null; if (r < t1) t1 = r; }
+  }
+  return [[a[0] + t0 * dx, a[1] + t0 * dy], [a[0] + t1 * dx, a[1] + t1 * dy]];
+};
+
+export type ImageProjector = {
+  point: (p: Pt) => Pt | null; // null when behind the camera or off-frame
+  polylines: (lines: Pt[][]) => Pt[][];
+};
+
+// Projects pitch-space geometry into one video frame through the inverse of H.
+// Polylines are cut where they pass behind the camera (homogeneous w changes
+// sign) and clipped to the frame plus a margin, so one marking may come back
+// as several pieces.
+export const createImageProjector = (
+  H: number[][],
+  frame: { width: number; height: number },
+  margin = 50
+): ImageProjector | null => {
+  const Hinv = invert3x3(H);
+  // w of a point known to be on the ground (bottom centre of the frame) fixes
+  // which sign means "in front of the camera"
+  const refW = 1 / (H[2][0] * frame.width / 2 + H[2][1] * frame.height * 0.95 + H[2][2]);
+  if (!Hinv || !isFinite(refW)) return null;
+  const minW = Math.abs(refW) * 0.02; // nearer the horizon than this is treated as behind
+  const wOf = ([X, Y]: Pt) => Math.sign(refW) * (Hinv[2][0] * X + Hinv[2][1] * Y + Hinv[2][2]);
+  const toImage = (p: Pt): Pt => {
+    const q = projectPitchToImage(Hinv, p[0], p[1])!;
+    return [q.x, q.y];
+  };
+  const [x0, y0, x1, y1] = [-margin, -margin, frame.width + margin, frame.height + margin];
+
+  const point = (p: Pt): Pt | null => {
+    if (wOf(p) < minW) return null;
+    const q = toImage(p);
+    return q[0] >= 0 && q[0] <= frame.width && q[1] >= 0 && q[1] <= frame.height ? q : null;
+  };
+
+  const polylines = (lines: Pt[][]) => {
+    const out: Pt[][] = [];
+    for (const line of lines) {
+      let current: Pt[] = [];
+      const flush = () => { if (current.length > 1) out.push(current); current = []; };
+      for (let i = 1; i < line.length; i++) {
+        let a = line[i - 1];
+        let b = line[i];
+        const wa = wOf(a);
+        const wb = wOf(b);
+        if (wa < minW && wb < minW) { flush(); continue; }
+        // Move the hidden end forward to where the segment crosses minW (w is linear in pitch space)
+        if (wa < minW || wb < minW) {
+          const t = (minW - wa) / (wb - wa);
+          const cut: Pt = [a[0] + t * (b[0] - a[0]), a[1] + t * (b[1] - a[1])];
+          if (wa < minW) a = cut; else b = cut;
+        }
+        const seg = clipToRect(toImage(a), toImage(b), x0, y0, x1, y1);
+        if (!seg) { flush(); continue; }
+        const last = current[current.length - 1];
+        if (!last || Math.hypot(last[0] - seg[0][0], last[1] - seg[0][1]) > 1e-6) {
+          flush();
+          current.push(seg[0]);
+        }
+        current.push(seg[1]);
+      }
+      flush();
+    }
+    return out;
+  };
+
+  return { point, polylines };
+};
@@ -0,0 +1,106 @@
+// Per-frame homography built from the backend's piecewise-constant segments.
+// Matrices are blended over a short window so segment boundaries don't jump,
+// short gaps are interpolated between their neighbours, and longer gaps hold
+// the nearest good matrix for a limited time before giving up.
+import type { HomographySegment } from "./types";
+
+export type CalibrationSource = "segment" | "interpolated" | "held";
+export type CalibrationConfidence = "good" | "low" | "none";
+
+export type FrameCalibration = {
+  H: number[][] | null; // image pixels -> pitch metres
+  source: CalibrationSource | null;
+  confidence: CalibrationConfidence;
+  segment: HomographySegment | null; // segment covering the frame, if any
+};
+
+export type TimelineOptions = {
+  smoothFrames: number; // half-width of the blending window
+  maxInterpolateFrames: number; // longer gaps are held instead of interpolated
+  maxHoldFrames: number; // how long a matrix is held into a gap
+  minKeypoints: number; // segments fitted from fewer keypoints are low confidence
+};
+
+export type HomographyTimeline = { at: (frame: number) => FrameCalibration };
+
+export const timelineOptions = (fps: number): TimelineOptions => ({
+  smoothFrames: Math.round(0.2 * fps),
+  maxInterpolateFrames: Math.round(2 * fps),
+  maxHoldFrames: Math.round(fps),
+  minKeypoints: 4,
+});
+
+const NONE: FrameCalibration = { H: null, source: null, confidence: "none", segment: null };
+
+// Scale so H[2][2] = 1, making element-wise blending meaningful.
+// Good enough for the small camera motion between neighbouring segments.
+const normalize = (H: number[][]) => {
+  const k = Math.abs(H[2][2]) > 1e-12 ? H[2][2] : Math.hypot(...H.flat()) || 1;
+  return H.map(row => row.map(v => v / k));
+};
+
+const blend = (mats: number[][][], weights: number[]) => {
+  const total = weights.reduce((a, w) => a + w, 0);
+  return [0, 1, 2].map(i => [0, 1, 2].map(j =>
+    mats.reduce((a, m, k) => a + m[i][j] * weights[k], 0) / total));
+};
+
+export function buildHomographyTimeline(segments: HomographySegment[], options: TimelineOptions): HomographyTimeline {
+  const segs = segments.filter(s => s.H?.length === 3).sort((a, b) => a.frame_start - b.frame_start);
+  const mats = segs.map(s => normalize(s.H));
+  const { smoothFrames, maxInterpolateFrames, maxHoldFrames, minKeypoints } = options;
+
+  // Index of the last segment starting at or before the frame, -1 if none
+  const lastStartingBy = (frame: number) => {
+    let lo = 0;
+    let hi = segs.length - 1;
+    let found = -1;
+    while (lo <= hi) {
+      const mid = (lo + hi) >> 1;
+      if (segs[mid].frame_start <= frame) { found = mid; lo = mid + 1; } else hi = mid - 1;
+    }
+    return found;
+  };
+
+  // Box filter over the segments overlapping [frame - w, frame + w]
+  const smoothed = (frame: number, i: number) => {
+    const from = frame - smoothFrames;
+    const to = frame + smoothFrames;
+    const picked: number[][][] = [];
+    const weights: number[] = [];
+    for (let k = i; k >= 0 && segs[k].frame_end >= from; k--) {
+      picked.push(mats[k]);
+      weights.push(Math.min(to, segs[k].frame_end) - Math.max(from, segs[k].frame_start) + 1);
+    }
+    for (let k = i + 1; k < segs.length && segs[k].frame_start <= to; k++) {
+      picked.push(mats[k]);
+      weights.push(Math.min(to, segs[k].frame_end) - Math.max(from, segs[k].frame_start) + 1);
+    }
+    return picked.length === 1 ? picked[0] : blend(picked, weights);
+  };
+
+  const at = (frame: number): FrameCalibration => {
+    const i = lastStartingBy(frame);
+    const prev = i >= 0 ? segs[i] : null;
+    const next = i + 1 < segs.length ? segs[i + 1] : null;
+
+    if (prev && frame <= prev.frame_end) {
+      const fitted = !prev.keypoints_img || prev.keypoints_img.length >= minKeypoints;
+      return { H: smoothed(frame, i), source: "segment", confidence: fitted ? "good" : "low", segment: prev };
+    }
+
+    if (prev && next && next.frame_start - prev.frame_end - 1 <= maxInterpolateFrames) {
+      const k = (frame - prev.frame_end) / (next.frame_start - prev.frame_end);
+      return { H: blend([mats[i], mats[i + 1]], [1 - k, k]), source: "interpolated", confidence: "low", segment: null };
+    }
+    if (prev && frame - prev.frame_end <= maxHoldFrames) {
+      return { H: mats[i], source: "held", confidence: "low", segment: null };
+    }
+    if (next && next.frame_start - frame <= maxHoldFrames) {
+      return { H: mats[i + 1], source: "held", confidence: "low", segment: null };
+    }
+    return NONE;
+  };
+
+  return { at };
+}
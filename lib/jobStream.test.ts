@@ -0,0 +1,326 @@
+// subscribeJob against a local backend: the SSE stream, the fallback to
+// polling when the stream is missing, a job that doesn't exist, and the stream
+// closing once the job settles. Then sharing a job between tabs, with Web Locks
+// and BroadcastChannel stubbed in memory and the test playing the other tab,
+// and giving up on a backend that keeps failing. Run with `npm test`.
+import assert from "node:assert/strict";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { after, before, describe, mock, test } from "node:test";
+import { EventSource } from "eventsource";
+import type { JobUpdate } from "./jobStream";
+import type { JobState, JobStatus } from "./types";
+
+type Job = {
+  stream: JobState[] | null; // statuses sent over SSE; null answers the stream with 404
+  poll: JobState | null; // status returned by GET /jobs/:id; null answers with 404
+};
+
+const jobs = new Map<string, Job>();
+const hits = new Map<string, number>(); // request counts per path
+const closed = new Map<string, Promise<void>>(); // resolves when the client drops a stream
+
+const status = (job_id: string, state: JobState): JobStatus => ({ job_id, status: state, progress: state === "finished" ? 1 : 0.5 });
+
+const server = http.createServer((req, res) => {
+  const path = req.url || "";
+  hits.set(path, (hits.get(path) || 0) + 1);
+  const [, , id, events] = path.split("/");
+  const job = jobs.get(id);
+
+  if (events === "events") {
+    if (!job?.stream) return res.writeHead(404).end();
+    res.writeHead(200, { "Content-Type": "text/event-stream", "Cache-Control": "no-cache" });
+    closed.set(id, new Promise(resolve => req.on("close", () => resolve())));
+    // The connection stays open after the last event, as a real stream would
+    for (const state of job.stream) res.write(`event: status\ndata: ${JSON.stringify(status(id, state))}\n\n`);
+    return;
+  }
+  if (!job?.poll) return res.writeHead(404, { "Content-Type": "application/json" }).end(JSON.stringify({ detail: "Job not found" }));
+  res.writeHead(200, { "Content-Type": "application/json" }).end(JSON.stringify(status(id, job.poll)));
+});
+
+let subscribeJob: (jobId: string, listener: (u: JobUpdate) => void) => () => void;
+
+const CHANNEL = "fe:job-status"; // as in lib/jobStream
+const BACKOFF_MAX_MS = 30000;
+const MAX_FAILURES = 8;
+
+before(async () => {
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  // The API base is read when lib/api loads, so the modules load after the server is up
+  process.env.NEXT_PUBLIC_API_BASE = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  (globalThis as { EventSource?: unknown }).EventSource = EventSource;
+  ({ subscribeJob } = await import("./jobStream"));
+});
+
+after(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Collects updates until the predicate matches one. The subscription stays
+// open, so the tests see what the job stream does by itself once a job settles.
+function collect(jobId: string, until: (u: JobUpdate) => boolean, timeoutMs = 5000) {
+  const updates: JobUpdate[] = [];
+  let done = () => {};
+  const unsubscribe = subscribeJob(jobId, u => {
+    updates.push(u);
+    if (until(u)) done();
+  });
+  const settled = new Promise<JobUpdate[]>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`Nothing matched for ${jobId}: ${JSON.stringify(updates)}`)), timeoutMs);
+    done = () => {
+      clearTimeout(timer);
+      resolve(updates);
+    };
+  });
+  return { settled, unsubscribe };
+}
+
+const states = (updates: JobUpdate[]) => updates.map(u => (u.type === "status" ? u.status.status : `error:${u.error}`));
+const isState = (state: JobState) => (u: JobUpdate) => u.type === "status" && u.status.status === state;
+
+// Times out instead of hanging if the stream is left open
+test("follows the job over the stream and closes it once the job settles", { timeout: 5000 }, async () => {
+  jobs.set("sse", { stream: ["queued", "started", "finished"], poll: "finished" });
+  const { settled, unsubscribe } = collect("sse", isState("finished"));
+  assert.deepEqual(states(await settled), ["queued", "started", "finished"]);
+
+  await closed.get("sse");
+  await wait(200);
+  unsubscribe();
+  assert.equal(hits.get("/jobs/sse/events"), 1, "the stream was not reopened");
+  assert.equal(hits.get("/jobs/sse"), undefined, "nothing was polled");
+});
+
+test("falls back to polling when the job has no stream", async () => {
+  jobs.set("poll", { stream: null, poll: "failed" });
+  const { settled, unsubscribe } = collect("poll", isState("failed"));
+  assert.deepEqual(states(await settled), ["failed"]);
+  await wait(1500);
+  unsubscribe();
+  assert.equal(hits.get("/jobs/poll/events"), 1);
+  assert.equal(hits.get("/jobs/poll"), 1, "a settled job is not polled again");
+});
+
+test("keeps polling a running job until it settles", async () => {
+  jobs.set("slow", { stream: null, poll: "started" });
+  const { settled, unsubscribe } = collect("slow", u => {
+    if (isState("started")(u)) jobs.set("slow", { stream: null, poll: "finished" });
+    return isState("finished")(u);
+  });
+  assert.deepEqual(states(await settled), ["started", "finished"]);
+  unsubscribe();
+  assert.equal(hits.get("/jobs/slow"), 2);
+});
+
+test("gives up with not_found when the job doesn't exist", async () => {
+  const { settled, unsubscribe } = collect("missing", u => u.type === "error");
+  const updates = await settled;
+  unsubscribe();
+  assert.equal(updates.length, 1);
+  const [update] = updates;
+  assert.equal(update.type, "error");
+  if (update.type !== "error") return;
+  assert.equal(update.not_found, true);
+  assert.equal(update.gave_up, true);
+  assert.equal(update.error, "Job not found");
+});
+
+// Delivers to every other open channel with the same name, asynchronously, as browsers do
+class MemoryChannel {
+  static open = new Set<MemoryChannel>();
+  onmessage: ((e: { data: unknown }) => void) | null = null;
+  constructor(readonly name: string) {
+    MemoryChannel.open.add(this);
+  }
+  postMessage(data: unknown) {
+    const copy = structuredClone(data);
+    MemoryChannel.open.forEach(other => {
+      if (other !== this && other.name === this.name) setImmediate(() => other.onmessage?.({ data: copy }));
+    });
+  }
+  close() {
+    MemoryChannel.open.delete(this);
+  }
+}
+
+// Exclusive locks granted in request order; a request aborted while waiting is dropped
+const tails = new Map<string, Promise<void>>();
+const held = new Set<string>();
+const locks = {
+  request(name: string, options: { signal?: AbortSignal }, callback: () => Promise<void>) {
+    const { signal } = options;
+    return new Promise<void>((resolve, reject) => {
+      let granted = false;
+      signal?.addEventListener("abort", () => { if (!granted) reject(new DOMException("Aborted", "AbortError")); }, { once: true });
+      const previous = tails.get(name) || Promise.resolve();
+      tails.set(name, previous.then(async () => {
+        if (signal?.aborted) return;
+        granted = true;
+        held.add(name);
+        try {
+          resolve(await callback());
+        } catch (e) {
+          reject(e);
+        } finally {
+          held.delete(name);
+        }
+      }));
+    });
+  },
+};
+
+const lockName = (jobId: string) => `${CHANNEL}:${jobId}`;
+
+// The other tab: its own channel, and the lock while it follows the job
+function peerTab() {
+  const channel = new MemoryChannel(CHANNEL);
+  const heard: JobUpdate[] = [];
+  const hellos: string[] = [];
+  channel.onmessage = e => {
+    const msg = e.data as JobUpdate | { type: "hello"; job_id: string };
+    if (msg.type === "hello") hellos.push(msg.job_id);
+    else heard.push(msg);
+  };
+  return {
+    heard,
+    hellos,
+    send: (msg: JobUpdate) => channel.postMessage(msg),
+    hello: (jobId: string) => channel.postMessage({ type: "hello", job_id: jobId }),
+    // Resolves once the lock is held; the returned function closes the tab
+    lead: (jobId: string) => new Promise<() => void>(granted => {
+      locks.request(lockName(jobId), {}, () => new Promise<void>(release => granted(release)));
+    }),
+    close: () => channel.close(),
+  };
+}
+
+async function until(check: () => boolean, what: string, timeoutMs = 3000) {
+  for (const start = Date.now(); !check(); await wait(20)) {
+    if (Date.now() - start > timeoutMs) throw new Error(`Timed out waiting for ${what}`);
+  }
+}
+
+describe("across tabs", () => {
+  before(() => {
+    Object.assign(globalThis, { BroadcastChannel: MemoryChannel, navigator: { locks } });
+  });
+  after(() => {
+    const g = globalThis as { BroadcastChannel?: unknown; navigator?: unknown };
+    delete g.BroadcastChannel;
+    delete g.navigator;
+  });
+
+  test("the tab holding the lock follows the job and relays it to the others", async () => {
+    jobs.set("leader", { stream: null, poll: "started" });
+    const peer = peerTab();
+    const { settled, unsubscribe } = collect("leader", isState("finished"));
+    await until(() => peer.heard.length > 0, "the first relayed update");
+    assert.ok(held.has(lockName("leader")), "this tab took the lock");
+    assert.deepEqual(peer.hellos, ["leader"], "it asked for the latest update before leading");
+
+    // A tab subscribing later is caught up without waiting for the next poll
+    peer.hello("leader");
+    await until(() => peer.heard.length > 1, "the catch-up update");
+    assert.deepEqual(states(peer.heard), ["started", "started"]);
+    assert.equal(hits.get("/jobs/leader"), 1);
+
+    jobs.set("leader", { stream: null, poll: "finished" });
+    await settled;
+    await until(() => !held.has(lockName("leader")), "the lock to be released");
+    assert.deepEqual(states(peer.heard).slice(-1), ["finished"]);
+    unsubscribe();
+    peer.close();
+  });
+
+  test("a tab without the lock shows the leader's updates and takes over when it closes", async () => {
+    jobs.set("handover", { stream: null, poll: "started" });
+    const peer = peerTab();
+    const closeLeader = await peer.lead("handover");
+    const updates: JobUpdate[] = [];
+    const unsubscribe = subscribeJob("handover", u => updates.push(u));
+
+    // The leader answers the new tab's hello and keeps relaying
+    await until(() => peer.hellos.includes("handover"), "the hello");
+    peer.send({ type: "status", job_id: "handover", status: status("handover", "queued") });
+    peer.send({ type: "status", job_id: "handover", status: status("handover", "started") });
+    await until(() => updates.length === 2, "the relayed updates");
+    assert.equal(hits.get("/jobs/handover/events"), undefined, "only the leader talks to the backend");
+    assert.equal(hits.get("/jobs/handover"), undefined);
+
+    closeLeader();
+    await until(() => (hits.get("/jobs/handover") || 0) > 0, "this tab to start following the job");
+    assert.ok(held.has(lockName("handover")));
+    jobs.set("handover", { stream: null, poll: "finished" });
+    await until(() => updates.some(isState("finished")), "the job to finish");
+    assert.deepEqual(states(updates), ["queued", "started", "started", "finished"]);
+    assert.deepEqual(states(peer.heard), ["started", "finished"], "the new leader relays too");
+    unsubscribe();
+    peer.close();
+  });
+
+  test("closing the leading tab hands the job to a waiting one", async () => {
+    jobs.set("closing", { stream: null, poll: "started" });
+    const peer = peerTab();
+    const unsubscribe = subscribeJob("closing", () => {});
+    await until(() => held.has(lockName("closing")), "this tab to take the lock");
+    let granted: (() => void) | null = null;
+    peer.lead("closing").then(release => { granted = release; });
+    await wait(100);
+    assert.equal(granted, null, "the lock is still held");
+
+    unsubscribe();
+    await until(() => granted !== null, "the waiting tab to get the lock");
+    const polls = hits.get("/jobs/closing");
+    await wait(1500);
+    assert.equal(hits.get("/jobs/closing"), polls, "the closed tab stopped polling");
+    granted!();
+    peer.close();
+  });
+});
+
+test("backs off while the backend keeps failing and then gives up", async () => {
+  // Stubbing fetch keeps real sockets out of the mocked clock
+  const realFetch = globalThis.fetch;
+  const requested: string[] = [];
+  globalThis.fetch = async input => {
+    requested.push(String(input));
+    return new Response(JSON.stringify({ detail: "Backend unavailable" }), { status: 500 });
+  };
+  mock.timers.enable({ apis: ["setTimeout"] });
+  try {
+    const updates: { at: number; update: JobUpdate }[] = [];
+    let now = 0;
+    const unsubscribe = subscribeJob("down", update => updates.push({ at: now, update }));
+    const flush = async () => {
+      for (let i = 0; i < 10; i++) await new Promise(resolve => setImmediate(resolve));
+    };
+    await flush();
+    while (now < 5 * 60 * 1000) {
+      now += 500;
+      mock.timers.tick(500);
+      await flush();
+    }
+    unsubscribe();
+
+    const polls = requested.filter(url => url.endsWith("/jobs/down"));
+    assert.equal(polls.length, MAX_FAILURES, "no requests after giving up");
+    assert.equal(updates.length, MAX_FAILURES);
+    updates.forEach(({ update }, i) => {
+      assert.equal(update.type, "error");
+      if (update.type !== "error") return;
+      assert.equal(update.error, "Backend unavailable");
+      assert.equal(update.gave_up, i === MAX_FAILURES - 1);
+      assert.equal(update.not_found, undefined);
+    });
+    const gaps = updates.slice(1).map((u, i) => u.at - updates[i].at);
+    assert.deepEqual(gaps, [2000, 4000, 8000, 16000, BACKOFF_MAX_MS, BACKOFF_MAX_MS, BACKOFF_MAX_MS]);
+  } finally {
+    mock.timers.reset();
+    globalThis.fetch = realFetch;
+  }
+});
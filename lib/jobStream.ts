@@ -0,0 +1,202 @@
+// Job status subscriptions. Each job is followed over the backend's Server-Sent
+// Events stream when it has one, otherwise by polling that slows down while
+// nothing changes, backs off on errors and gives up after repeated failures.
+// Tabs share the work: one tab per job holds a Web Lock and follows the job,
+// the others get its updates over a BroadcastChannel and take over if it closes.
+import * as api from "./api";
+import type { JobState, JobStatus } from "./types";
+
+export type JobUpdate =
+  | { type: "status"; job_id: string; status: JobStatus }
+  | {
+      type: "error";
+      job_id: string;
+      error: string;
+      gave_up: boolean; // no more updates until resubscribing
+      not_found?: boolean;
+    };
+
+type Message = JobUpdate | { type: "hello"; job_id: string };
+
+const CHANNEL = "fe:job-status";
+const POLL_MIN_MS = 1000;
+const POLL_MAX_MS = 10000; // while the status stays the same
+const BACKOFF_MAX_MS = 30000; // while requests fail
+const MAX_FAILURES = 8;
+const REQUEST_TIMEOUT_MS = 10000;
+const SSE_MAX_ERRORS = 3; // reconnects before switching to polling
+
+export const SETTLED_STATES: JobState[] = ["finished", "failed", "stopped", "canceled"];
+
+// Nothing more will arrive for this job
+export const isFinal = (u: JobUpdate) => (u.type === "status" ? SETTLED_STATES.includes(u.status.status) : u.gave_up);
+
+const message = (e: unknown) => (e instanceof Error ? e.message : "Status check failed");
+
+function pollJob(jobId: string, emit: (u: JobUpdate) => void): () => void {
+  let stopped = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let interval = POLL_MIN_MS;
+  let failures = 0;
+  let lastKey = "";
+
+  const tick = async () => {
+    try {
+      const status = await api.getJob(jobId, { signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+      if (stopped) return;
+      failures = 0;
+      // Poll quickly while the job moves, slower while it sits still
+      const key = `${status.status}|${status.progress}|${status.note}`;
+      interval = key === lastKey ? Math.min(POLL_MAX_MS, interval * 1.5) : POLL_MIN_MS;
+      lastKey = key;
+      emit({ type: "status", job_id: jobId, status });
+      if (SETTLED_STATES.includes(status.status)) return;
+    } catch (e) {
+      if (stopped) return;
+      if (e instanceof api.ApiError && e.status === 404) {
+        emit({ type: "error", job_id: jobId, error: message(e), gave_up: true, not_found: true });
+        return;
+      }
+      failures++;
+      const gaveUp = failures >= MAX_FAILURES;
+      emit({ type: "error", job_id: jobId, error: message(e), gave_up: gaveUp });
+      if (gaveUp) return;
+      interval = Math.min(BACKOFF_MAX_MS, POLL_MIN_MS * 2 ** failures);
+    }
+    timer = setTimeout(tick, interval);
+  };
+
+  tick();
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+  };
+}
+
+// Calls fallback if the stream is missing or keeps dropping
+function streamJob(jobId: string, emit: (u: JobUpdate) => void, fallback: () => void): () => void {
+  const source = new EventSource(api.jobEventsUrl(jobId));
+  let opened = false;
+  let errors = 0;
+
+  source.onopen = () => {
+    opened = true;
+    errors = 0;
+  };
+  source.addEventListener("status", e => {
+    const status: JobStatus = JSON.parse((e as MessageEvent).data);
+    emit({ type: "status", job_id: jobId, status });
+    if (SETTLED_STATES.includes(status.status)) source.close();
+  });
+  source.onerror = () => {
+    if (source.readyState === EventSource.CLOSED || !opened || ++errors >= SSE_MAX_ERRORS) {
+      source.close();
+      fallback();
+    }
+  };
+  return () => source.close();
+}
+
+function followJob(jobId: string, emit: (u: JobUpdate) => void): () => void {
+  let stopped = false;
+  let stop = () => {};
+  const poll = () => {
+    if (!stopped) stop = pollJob(jobId, emit);
+  };
+  if (typeof EventSource !== "undefined") stop = streamJob(jobId, emit, poll);
+  else poll();
+  return () => {
+    stopped = true;
+    stop();
+  };
+}
+
+type Entry = {
+  listeners: Set<(u: JobUpdate) => void>;
+  last: JobUpdate | null;
+  leading: boolean;
+  stop: () => void;
+};
+
+const entries = new Map<string, Entry>();
+let channel: BroadcastChannel | null = null;
+
+const shared = () => typeof BroadcastChannel !== "undefined" && typeof navigator !== "undefined" && !!navigator.locks;
+
+function getChannel() {
+  if (!channel) {
+    channel = new BroadcastChannel(CHANNEL);
+    channel.onmessage = (e: MessageEvent<Message>) => {
+      const msg = e.data;
+      const entry = entries.get(msg.job_id);
+      if (!entry) return;
+      if (msg.type === "hello") {
+        // A tab just subscribed; catch it up
+        if (entry.leading && entry.last) channel!.postMessage(entry.last);
+      } else if (!entry.leading) {
+        deliver(entry, msg);
+      }
+    };
+  }
+  return channel;
+}
+
+function deliver(entry: Entry, update: JobUpdate) {
+  entry.last = update;
+  entry.listeners.forEach(l => l(update));
+}
+
+function start(jobId: string, entry: Entry) {
+  if (!shared()) {
+    entry.stop = followJob(jobId, u => deliver(entry, u));
+    return;
+  }
+
+  const abort = new AbortController();
+  let release = () => {};
+  let unfollow = () => {};
+  const ch = getChannel();
+
+  navigator.locks
+    .request(`${CHANNEL}:${jobId}`, { signal: abort.signal }, () => new Promise<void>(resolve => {
+      // Another tab may have seen the job through before this one got the lock
+      if (abort.signal.aborted || (entry.last && isFinal(entry.last))) return resolve();
+      entry.leading = true;
+      release = resolve;
+      unfollow = followJob(jobId, u => {
+        deliver(entry, u);
+        ch.postMessage(u);
+        if (isFinal(u)) resolve();
+      });
+    }))
+    .catch(() => { /* aborted while waiting for the lock */ });
+
+  ch.postMessage({ type: "hello", job_id: jobId });
+  entry.stop = () => {
+    abort.abort();
+    unfollow();
+    release();
+  };
+}
+
+// Listener gets the latest known update right away, then every new one.
+// The returned function unsubscribes; the job is dropped with its last listener.
+export function subscribeJob(jobId: string, listener: (u: JobUpdate) => void): () => void {
+  let entry = entries.get(jobId);
+  if (!entry) {
+    entry = { listeners: new Set(), last: null, leading: false, stop: () => {} };
+    entries.set(jobId, entry);
+    start(jobId, entry);
+  }
+  entry.listeners.add(listener);
+  if (entry.last) listener(entry.last);
+
+  const current = entry;
+  return () => {
+    current.listeners.delete(listener);
+    if (!current.listeners.size && entries.get(jobId) === current) {
+      current.stop();
+      entries.delete(jobId);
+    }
+  };
+}
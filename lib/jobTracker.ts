@@ -0,0 +1,228 @@
+// Follows every pipeline job saved in this browser at once: each is subscribed
+// to (lib/jobStream) until it settles, finished pipelines get their fast
+// analytics, and the dashboard actions (cancel, re-enqueue, retry analytics,
+// dismiss) go through here.
+// Live status stays in memory; the job list and analytics outcome are persisted
+// in lib/jobs, so a reload resumes tracking where it left off.
+import * as api from "./api";
+import { isFinal, subscribeJob, type JobUpdate } from "./jobStream";
+import { JOBS_EVENT, JOBS_KEY, loadJobs, patchJob, removeJob, replaceJob, saveJobs, type SavedJob } from "./jobs";
+import { DEFAULT_PARAMS, saveMatchParams, type PipelineParams } from "./presets";
+import type { JobStatus } from "./types";
+
+export type JobPhase =
+  | "queued"
+  | "running"
+  | "analytics" // pipeline finished, analytics pending or in flight
+  | "done"
+  | "failed" // pipeline or analytics
+  | "canceled";
+
+export type TrackedJob = SavedJob & {
+  status: JobStatus | null; // latest from the backend, null until the first update
+  phase: JobPhase;
+  error?: string; // last status or action error
+  stalled: boolean; // status updates gave up; recheck to try again
+};
+
+export type JobTracker = {
+  jobs: () => TrackedJob[];
+  subscribe: (listener: (jobs: TrackedJob[]) => void) => () => void;
+  cancel: (jobId: string) => Promise<void>;
+  reenqueue: (jobId: string) => Promise<void>;
+  retryAnalytics: (jobId: string) => Promise<void>;
+  recheck: (jobId: string) => void;
+  dismiss: (jobId: string) => void;
+};
+
+// Fast analytics that read the pipeline's output
+export async function runAnalytics(matchId: number, params: PipelineParams) {
+  await Promise.all([
+    api.runPositions(matchId),
+    api.runPossession(matchId, { max_dist_m: params.max_dist_m }),
+    api.runControlZones(matchId, { stride: params.stride }),
+    api.runMomentum(matchId, { stride: params.stride }),
+  ]);
+}
+
+export function jobPhase(job: SavedJob, status: JobStatus | null): JobPhase {
+  if (job.analytics === "done") return "done";
+  if (job.analytics === "failed") return "failed";
+  if (job.analytics === "running") return "analytics";
+  switch (status?.status) {
+    case "started": return "running";
+    case "finished": return "analytics";
+    case "failed": return "failed";
+    case "stopped":
+    case "canceled": return "canceled";
+    default: return "queued";
+  }
+}
+
+export const isSettled = (phase: JobPhase) => phase === "done" || phase === "failed" || phase === "canceled";
+
+// Done jobs leave the list on their own this long after their analytics
+// succeed; failed ones stay until dismissed
+const DONE_KEEP_MS = 7 * 24 * 60 * 60 * 1000;
+
+const expired = (j: SavedJob, now: number) =>
+  j.analytics === "done" && now - (j.completed_at ?? j.created_at ?? 0) > DONE_KEEP_MS;
+
+const message = (e: unknown, fallback: string) => (e instanceof Error ? e.message : fallback);
+
+// Serialise work across tabs where the Web Locks API exists
+const withTabLock = (name: string, fn: () => Promise<void>) =>
+  typeof navigator !== "undefined" && navigator.locks ? navigator.locks.request(name, fn) : fn();
+
+type Live = { status: JobStatus | null; error?: string; stalled: boolean };
+
+function createJobTracker(): JobTracker {
+  let saved: SavedJob[] = [];
+  let list: TrackedJob[] = [];
+  const live = new Map<string, Live>();
+  const subscriptions = new Map<string, () => void>();
+  const analyzing = new Set<string>();
+  const listeners = new Set<(jobs: TrackedJob[]) => void>();
+
+  const emit = () => {
+    list = saved.map(j => {
+      const l = live.get(j.job_id);
+      const status = l?.status ?? null;
+      return { ...j, status, phase: jobPhase(j, status), error: l?.error, stalled: !!l?.stalled };
+    });
+    listeners.forEach(l => l(list));
+  };
+
+  const tracked = (jobId: string) => saved.find(j => j.job_id === jobId);
+  const setLive = (jobId: string, patch: Partial<Live>) => {
+    if (!tracked(jobId)) return;
+    live.set(jobId, { status: null, stalled: false, ...live.get(jobId), ...patch });
+    emit();
+  };
+  const unsubscribe = (jobId: string) => {
+    subscriptions.get(jobId)?.();
+    subscriptions.delete(jobId);
+  };
+
+  // Another tab may be running the same analytics; whoever gets the lock second
+  // finds the outcome already saved. `force` reruns finished analytics.
+  const analyze = async (jobId: string, force = false) => {
+    if (analyzing.has(jobId)) return;
+    analyzing.add(jobId);
+    try {
+      await withTabLock(`fe:analytics:${jobId}`, async () => {
+        const job = loadJobs().find(j => j.job_id === jobId);
+        // "running" without the lock held means a reload interrupted it
+        if (!job || (!force && (job.analytics === "done" || job.analytics === "failed"))) return;
+        patchJob(jobId, { analytics: "running", analytics_error: undefined });
+        try {
+          const params = job.params ?? DEFAULT_PARAMS;
+          await runAnalytics(job.match_id, params);
+          saveMatchParams(job.match_id, params);
+          patchJob(jobId, { analytics: "done", completed_at: Date.now() });
+        } catch (e) {
+          patchJob(jobId, { analytics: "failed", analytics_error: message(e, "Analytics failed") });
+        }
+      });
+    } finally {
+      analyzing.delete(jobId);
+    }
+  };
+
+  const onUpdate = (u: JobUpdate) => {
+    const jobId = u.job_id;
+    if (!tracked(jobId)) return;
+    if (u.type === "status") {
+      setLive(jobId, { status: u.status, error: undefined, stalled: false });
+      if (u.status.status === "finished") analyze(jobId);
+    } else if (u.not_found) {
+      // Results expire on the backend; a finished job keeps its saved outcome
+      const known = live.get(jobId)?.status;
+      setLive(jobId, {
+        status: known ?? { job_id: jobId, status: "failed", exc: "Job not found on the server (expired or the backend was restarted)" },
+        error: undefined,
+      });
+    } else {
+      setLive(jobId, { error: u.error, stalled: u.gave_up });
+    }
+    // Unsubscribing inside the listener is safe; it only drops this job
+    if (isFinal(u)) unsubscribe(jobId);
+  };
+
+  const watch = (jobId: string) => {
+    if (!subscriptions.has(jobId)) subscriptions.set(jobId, subscribeJob(jobId, onUpdate));
+  };
+
+  // Pick up jobs added or removed by other code or other tabs
+  const sync = () => {
+    saved = loadJobs();
+    for (const id of [...live.keys()]) {
+      if (!tracked(id)) {
+        unsubscribe(id);
+        live.delete(id);
+      }
+    }
+    for (const j of saved) {
+      if (!live.has(j.job_id)) {
+        live.set(j.job_id, { status: null, stalled: false });
+        // Once the analytics have an outcome there is nothing left to follow
+        if (j.analytics !== "done" && j.analytics !== "failed") watch(j.job_id);
+      }
+    }
+    emit();
+  };
+
+  const stored = loadJobs();
+  const now = Date.now();
+  if (stored.some(j => expired(j, now))) saveJobs(stored.filter(j => !expired(j, now)));
+
+  window.addEventListener(JOBS_EVENT, sync);
+  window.addEventListener("storage", e => { if (e.key === JOBS_KEY) sync(); });
+  sync();
+
+  return {
+    jobs: () => list,
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+    cancel: async jobId => {
+      try {
+        const status = await api.cancelJob(jobId);
+        setLive(jobId, { status, error: undefined });
+      } catch (e) {
+        // A 409 means it settled meanwhile; the subscription brings the final status
+        setLive(jobId, { error: `Cancel failed: ${message(e, "unknown error")}` });
+      }
+    },
+    reenqueue: async jobId => {
+      const job = tracked(jobId);
+      if (!job) return;
+      try {
+        const params = job.params ?? DEFAULT_PARAMS;
+        const { job_id } = await api.enqueuePipeline(job.match_id, { conf_thres: params.conf_thres });
+        replaceJob(jobId, { job_id, match_id: job.match_id, title: job.title, created_at: Date.now(), params });
+      } catch (e) {
+        setLive(jobId, { error: `Re-enqueue failed: ${message(e, "unknown error")}` });
+      }
+    },
+    retryAnalytics: jobId => analyze(jobId, true),
+    recheck: jobId => {
+      unsubscribe(jobId);
+      setLive(jobId, { error: undefined, stalled: false });
+      watch(jobId);
+    },
+    dismiss: jobId => {
+      unsubscribe(jobId);
+      removeJob(jobId);
+    },
+  };
+}
+
+let tracker: JobTracker | null = null;
+
+// One tracker per tab, created on first use in the browser
+export function getJobTracker(): JobTracker {
+  if (!tracker) tracker = createJobTracker();
+  return tracker;
+}
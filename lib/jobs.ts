@@ -0,0 +1,46 @@
+// Pipeline jobs started from this browser, kept in localStorage so progress
+// can be resumed after navigating away or reloading.
+import type { PipelineParams } from "./presets";
+
+// Outcome of the fast analytics that run after the pipeline finishes
+export type AnalyticsState = "running" | "done" | "failed";
+
+export type SavedJob = {
+  job_id: string;
+  match_id: number;
+  title: string;
+  created_at?: number; // epoch ms when enqueued; missing on jobs saved by older builds
+  params?: PipelineParams; // missing on older jobs, which ran with DEFAULT_PARAMS
+  analytics?: AnalyticsState;
+  analytics_error?: string;
+  completed_at?: number; // epoch ms when the analytics succeeded
+};
+
+export const JOBS_KEY = "fe:pending-jobs";
+
+// Fired on window after every write so same-tab listeners can resync
+// (the storage event only reaches other tabs)
+export const JOBS_EVENT = "fe:jobs-changed";
+
+export function loadJobs(): SavedJob[] {
+  try { return JSON.parse(localStorage.getItem(JOBS_KEY) || "[]"); } catch { return []; }
+}
+export function saveJobs(jobs: SavedJob[]) {
+  localStorage.setItem(JOBS_KEY, JSON.stringify(jobs));
+  window.dispatchEvent(new Event(JOBS_EVENT));
+}
+export function upsertJob(j: SavedJob) {
+  const jobs = loadJobs().filter(x => x.job_id !== j.job_id);
+  jobs.push(j);
+  saveJobs(jobs);
+}
+export function patchJob(job_id: string, patch: Partial<SavedJob>) {
+  saveJobs(loadJobs().map(j => (j.job_id === job_id ? { ...j, ...patch } : j)));
+}
+// Swap in a re-enqueued job without moving it in the list
+export function replaceJob(job_id: string, j: SavedJob) {
+  saveJobs(loadJobs().map(x => (x.job_id === job_id ? j : x)));
+}
+export function removeJob(job_id: string) {
+  saveJobs(loadJobs().filter(j => j.job_id !== job_id));
+}
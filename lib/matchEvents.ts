@@ -0,0 +1,256 @@
+// Match events derived from the possession series and the projected ball:
+// turnovers, long possession spells, entries into the final third and the
+// penalty box, and the ball leaving the pitch. Possession is cleaned of
+// flicker first; ball zones must hold for a moment before they count.
+import { buildDetectionStore, type DetectionStore } from "./detectionStore";
+import { projectImageToPitch } from "./homography";
+import { buildHomographyTimeline, timelineOptions, type HomographyTimeline } from "./homographyTimeline";
+import { inBounds, pitchModel, type PitchDimensions, type PitchModel } from "./pitch";
+import type { Detection, HomographySegment, PossessionFrame } from "./types";
+
+export type MatchEventType = "turnover" | "spell" | "final_third" | "box_entry" | "ball_out";
+
+export const EVENT_TYPES: Record<MatchEventType, string> = {
+  turnover: "Turnovers",
+  spell: "Long possession",
+  final_third: "Final-third entries",
+  box_entry: "Box entries",
+  ball_out: "Ball out",
+};
+
+export const EVENT_COLORS: Record<MatchEventType, string> = {
+  turnover: "#ea580c",
+  spell: "#7c3aed",
+  final_third: "#0d9488",
+  box_entry: "#db2777",
+  ball_out: "#6b7280",
+};
+
+// Jumping to an event starts this much earlier so the build-up is visible
+export const EVENT_LEAD_S = 4;
+
+export type MatchEvent = {
+  type: MatchEventType;
+  frame: number;
+  end_frame?: number; // possession spells only
+  team: number | null; // team in possession; for ball out, the last team to have it
+  label: string;
+};
+
+export type EventsInput = {
+  possession: PossessionFrame[];
+  store: DetectionStore;
+  tracksMap: Record<number, number>;
+  timeline: HomographyTimeline;
+  fps: number;
+  pitch: PitchModel;
+};
+
+// Plain data that can be posted to a worker, which rebuilds the store and timeline
+export type EventsSource = {
+  possession: PossessionFrame[];
+  detections: Detection[];
+  homography: HomographySegment[];
+  tracksMap: Record<number, number>;
+  fps: number;
+  pitch: PitchDimensions;
+};
+
+export type EventFilter = { types: MatchEventType[]; team: number | null }; // null team: both
+
+export const ALL_EVENTS: EventFilter = { types: Object.keys(EVENT_TYPES) as MatchEventType[], team: null };
+
+export const filterEvents = (events: MatchEvent[], filter: EventFilter) =>
+  events.filter(e => filter.types.includes(e.type) && (filter.team === null || e.team === filter.team));
+
+const MIN_HOLD_S = 1; // shorter possession runs are flicker between nearby players
+const MAX_LOOSE_S = 3; // a loose ball this long doesn't end a team's possession
+const SPELL_MIN_S = 15;
+const ZONE_HOLD_S = 0.4; // the ball must stay in a zone this long to count as an entry
+const ENTRY_COOLDOWN_S = 8; // re-entries by the same team within this are one attack
+const OUT_MARGIN_M = 0.5; // projection noise around the lines
+const OUT_HOLD_S = 0.3;
+const OUT_RESET_S = 2; // the ball must be back in play this long before the next out
+const GLITCH_M = 15; // positions further off the pitch are projection errors
+const BALL_MAX_GAP_S = 1; // zone and out state is forgotten over longer ball gaps
+
+type Run = { team: number; start: number; end: number };
+type BallSample = { frame: number; x: number; y: number };
+
+// Runs of one team's possession with flicker dropped and short loose balls bridged
+function possessionRuns(series: PossessionFrame[], fps: number): Run[] {
+  const minHold = MIN_HOLD_S * fps;
+  const maxLoose = MAX_LOOSE_S * fps;
+  const merge = (runs: Run[]) => {
+    const out: Run[] = [];
+    for (const r of runs) {
+      const prev = out[out.length - 1];
+      if (prev && prev.team === r.team && r.start - prev.end <= maxLoose) prev.end = r.end;
+      else out.push({ ...r });
+    }
+    return out;
+  };
+  const raw: Run[] = [];
+  for (const f of series) {
+    if (f.team === null) continue;
+    raw.push({ team: f.team, start: f.frame_id, end: f.frame_id });
+  }
+  return merge(merge(raw).filter(r => r.end - r.start >= minHold));
+}
+
+// One ground position per frame from the most confident ball detection
+function ballTrack(store: DetectionStore, timeline: HomographyTimeline, pitch: PitchModel): BallSample[] {
+  const best = new Map<number, { conf: number; x: number; y: number }>();
+  for (const d of store.inRange(store.firstFrame, store.lastFrame)) {
+    if (d.class_name.toLowerCase() !== "ball") continue;
+    const prev = best.get(d.frame_id);
+    if (!prev || d.conf > prev.conf) best.set(d.frame_id, { conf: d.conf, x: (d.x1 + d.x2) / 2, y: d.y2 });
+  }
+  const out: BallSample[] = [];
+  best.forEach((b, frame) => {
+    const H = timeline.at(frame).H;
+    const p = H && projectImageToPitch(H, b.x, b.y);
+    if (p && inBounds(pitch, p.x, p.y, GLITCH_M)) out.push({ frame, x: p.x, y: p.y });
+  });
+  return out; // frame order, since the store is sorted
+}
+
+// +1 when a team attacks towards x = length. The team whose players sit further
+// left defends the left goal. Ends are assumed fixed within one video.
+function attackDirections(input: EventsInput): Record<number, number> {
+  const { store, tracksMap, timeline, fps } = input;
+  const sum: Record<number, { x: number; n: number }> = {};
+  const step = Math.max(1, Math.round(fps));
+  for (let f = store.firstFrame; f <= store.lastFrame; f += step) {
+    const H = timeline.at(f).H;
+    if (!H) continue;
+    for (const d of store.byFrame(f)) {
+      const team = d.object_id !== null ? tracksMap[d.object_id] : undefined;
+      if (!team) continue;
+      const p = projectImageToPitch(H, (d.x1 + d.x2) / 2, d.y2);
+      if (!p || !inBounds(input.pitch, p.x, p.y)) continue;
+      const s = (sum[team] ||= { x: 0, n: 0 });
+      s.x += p.x;
+      s.n++;
+    }
+  }
+  const mean = (team: number) => (sum[team]?.n ? sum[team].x / sum[team].n : null);
+  const [m1, m2] = [mean(1), mean(2)];
+  const team1Right = m1 === null || m2 === null || m1 <= m2;
+  return { 1: team1Right ? 1 : -1, 2: team1Right ? -1 : 1 };
+}
+
+export function deriveEvents(input: EventsInput): MatchEvent[] {
+  const { possession, fps, pitch } = input;
+  const events: MatchEvent[] = [];
+  const runs = possessionRuns(possession, fps);
+
+  for (let i = 0; i < runs.length; i++) {
+    const run = runs[i];
+    const prev = runs[i - 1];
+    if (prev && prev.team !== run.team && run.start - prev.end <= MAX_LOOSE_S * fps) {
+      events.push({ type: "turnover", frame: run.start, team: run.team, label: `Team ${run.team} wins the ball from Team ${prev.team}` });
+    }
+    const seconds = (run.end - run.start) / fps;
+    if (seconds >= SPELL_MIN_S) {
+      events.push({ type: "spell", frame: run.start, end_frame: run.end, team: run.team, label: `Team ${run.team} keeps the ball for ${Math.round(seconds)} s` });
+    }
+  }
+
+  // Runs are ordered, so the latest one starting by a frame is the only candidate
+  const runBefore = (frame: number) => {
+    let lo = 0;
+    let hi = runs.length - 1;
+    let found: Run | null = null;
+    while (lo <= hi) {
+      const mid = (lo + hi) >> 1;
+      if (runs[mid].start <= frame) { found = runs[mid]; lo = mid + 1; } else hi = mid - 1;
+    }
+    return found;
+  };
+  const teamAt = (frame: number) => {
+    const run = runBefore(frame);
+    return run && frame <= run.end ? run.team : null;
+  };
+
+  const ball = ballTrack(input.store, input.timeline, pitch);
+  if (!ball.length) return events.sort((a, b) => a.frame - b.frame);
+
+  const attack = attackDirections(input);
+  const { keypoints: k, length: L } = pitch;
+  const zones: Record<"final_third" | "box_entry", (team: number, p: BallSample) => boolean> = {
+    final_third: (team, p) => (attack[team] > 0 ? p.x >= (2 * L) / 3 : p.x <= L / 3),
+    box_entry: (team, p) => attack[team] > 0
+      ? p.x >= k.right_penalty_box_top_left[0] && p.y >= k.right_penalty_box_top_left[1] && p.y <= k.right_penalty_box_bottom_left[1]
+      : p.x <= k.left_penalty_box_top_right[0] && p.y >= k.left_penalty_box_top_right[1] && p.y <= k.left_penalty_box_bottom_right[1],
+  };
+  const zoneLabels = { final_third: "enters the final third", box_entry: "enters the penalty box" };
+  // An entry needs the team to carry the ball in from outside the zone
+  const zoneState = (Object.keys(zones) as (keyof typeof zones)[]).map(type => ({
+    type,
+    outsideFor: null as number | null,
+    insideSince: null as number | null,
+    lastEntry: {} as Record<number, number>,
+  }));
+  const out = { since: null as number | null, inSince: null as number | null, armed: false };
+
+  let prevFrame = -Infinity;
+  for (const p of ball) {
+    if (p.frame - prevFrame > BALL_MAX_GAP_S * fps) {
+      for (const z of zoneState) { z.outsideFor = null; z.insideSince = null; }
+      out.since = null;
+      out.inSince = null;
+    }
+    prevFrame = p.frame;
+
+    const team = teamAt(p.frame);
+    for (const z of zoneState) {
+      if (team === null || !zones[z.type](team, p)) {
+        z.outsideFor = team;
+        z.insideSince = null;
+        continue;
+      }
+      if (z.outsideFor !== team) continue;
+      z.insideSince ??= p.frame;
+      if (p.frame - z.insideSince < ZONE_HOLD_S * fps) continue;
+      if (z.insideSince - (z.lastEntry[team] ?? -Infinity) >= ENTRY_COOLDOWN_S * fps) {
+        events.push({ type: z.type, frame: z.insideSince, team, label: `Team ${team} ${zoneLabels[z.type]}` });
+        z.lastEntry[team] = z.insideSince;
+      }
+      z.outsideFor = null;
+      z.insideSince = null;
+    }
+
+    if (inBounds(pitch, p.x, p.y, OUT_MARGIN_M)) {
+      out.since = null;
+      out.inSince ??= p.frame;
+      if (p.frame - out.inSince >= OUT_RESET_S * fps) out.armed = true;
+      continue;
+    }
+    out.inSince = null;
+    out.since ??= p.frame;
+    if (out.armed && p.frame - out.since >= OUT_HOLD_S * fps) {
+      const last = runBefore(out.since)?.team ?? null;
+      const line = p.x < 0 || p.x > L ? "goal line" : "touchline";
+      events.push({
+        type: "ball_out",
+        frame: out.since,
+        team: last,
+        label: `Ball out over the ${line}${last ? ` (last with Team ${last})` : ""}`,
+      });
+      out.armed = false;
+    }
+  }
+
+  return events.sort((a, b) => a.frame - b.frame);
+}
+
+export const deriveEventsFrom = (source: EventsSource): MatchEvent[] =>
+  deriveEvents({
+    possession: source.possession,
+    store: buildDetectionStore(source.detections),
+    tracksMap: source.tracksMap,
+    timeline: buildHomographyTimeline(source.homography, timelineOptions(source.fps)),
+    fps: source.fps,
+    pitch: pitchModel(source.pitch),
+  });
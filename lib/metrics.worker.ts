@@ -0,0 +1,9 @@
+import { deriveEventsFrom, type EventsSource } from "./matchEvents";
+import { computeMetrics, type MetricsInput } from "./playerMetrics";
+
+export type WorkerRequest = { kind: "metrics"; input: MetricsInput } | { kind: "events"; input: EventsSource };
+
+self.addEventListener("message", (e: MessageEvent<WorkerRequest>) => {
+  const request = e.data;
+  self.postMessage(request.kind === "events" ? deriveEventsFrom(request.input) : computeMetrics(request.input));
+});
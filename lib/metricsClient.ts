@@ -0,0 +1,35 @@
+// Whole-match metrics and match events walk every detection, so they run off
+// the main thread. One worker per request; it is terminated as soon as it answers.
+import { deriveEventsFrom, type EventsSource, type MatchEvent } from "./matchEvents";
+import type { WorkerRequest } from "./metrics.worker";
+import { computeMetrics, type MetricsInput, type MetricsResult } from "./playerMetrics";
+
+function runInWorker<T>(request: WorkerRequest, fallback: () => T, signal?: AbortSignal): Promise<T> {
+  if (typeof Worker === "undefined") return Promise.resolve(fallback());
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL("./metrics.worker.ts", import.meta.url));
+    const abort = () => {
+      worker.terminate();
+      reject(new DOMException("Aborted", "AbortError"));
+    };
+    signal?.addEventListener("abort", abort, { once: true });
+    worker.onmessage = (e: MessageEvent<T>) => {
+      signal?.removeEventListener("abort", abort);
+      worker.terminate();
+      resolve(e.data);
+    };
+    worker.onerror = e => {
+      signal?.removeEventListener("abort", abort);
+      worker.terminate();
+      reject(new Error(e.message || "Metrics worker failed"));
+    };
+    worker.postMessage(request);
+  });
+}
+
+export const computeMetricsInWorker = (input: MetricsInput, signal?: AbortSignal) =>
+  runInWorker<MetricsResult>({ kind: "metrics", input }, () => computeMetrics(input), signal);
+
+export const deriveEventsInWorker = (input: EventsSource, signal?: AbortSignal) =>
+  runInWorker<MatchEvent[]>({ kind: "events", input }, () => deriveEventsFrom(input), signal);
@@ -0,0 +1,184 @@
+// In-memory stand-in for the pipeline API. Every match shares the same synthetic
+// fixtures; jobs advance on wall-clock time so the jobs dashboard can be exercised.
+import type { JobStatus, Match, MatchStatus } from "../types";
+import {
+  MOCK_FPS,
+  MOCK_FRAMES,
+  MOCK_PITCH,
+  mockControlZones,
+  mockDetections,
+  mockHomography,
+  mockMomentum,
+  mockPossession,
+  mockTracks,
+} from "./fixtures";
+
+export type MockResponse = { status: number; body?: unknown };
+
+type MockJob = { job_id: string; match_id: number; started: number; canceled?: number };
+
+type MockState = { matches: Match[]; jobs: Record<string, MockJob>; nextId: number };
+
+declare global {
+  var __feMockState: MockState | undefined;
+}
+
+const JOB_DURATION_MS = 12000;
+const JOB_STEPS = ["detecting objects", "tracking", "estimating homography", "assigning teams"];
+
+const videoUrl = () => process.env.MOCK_VIDEO_URL || "/mock/match.mp4";
+
+const mockMatchFields = (createdAt = Date.now()) => ({
+  video_url: videoUrl(),
+  fps: MOCK_FPS,
+  frame_offset: 0,
+  pitch_length: MOCK_PITCH.length,
+  pitch_width: MOCK_PITCH.width,
+  created_at: new Date(createdAt).toISOString(),
+  duration_s: MOCK_FRAMES / MOCK_FPS,
+});
+
+const CLUBS = ["Rovers", "United", "Athletic", "City", "Wanderers", "Albion", "Rangers", "Harriers", "Town", "Villa"];
+const PLACES = ["North", "Riverside", "Hillcrest", "Eastfield", "Old Harbour", "Westbrook", "Kingsway"];
+
+// MOCK_MATCHES=n adds n older matches so the library's search and paging can be tried
+function seedMatches(): Match[] {
+  const extra = Math.max(0, Number(process.env.MOCK_MATCHES) || 0);
+  const day = 24 * 3600 * 1000;
+  const seeded = Array.from({ length: extra }, (_, i) => {
+    const home = `${PLACES[i % PLACES.length]} ${CLUBS[i % CLUBS.length]}`;
+    const away = `${PLACES[(i * 3 + 2) % PLACES.length]} ${CLUBS[(i * 7 + 3) % CLUBS.length]}`;
+    const status: MatchStatus = i % 17 === 5 ? "failed" : i % 11 === 3 ? "uploaded" : "ready";
+    return { id: i + 2, title: `${home} vs ${away}`, ...mockMatchFields(Date.now() - (i + 1) * day), status };
+  });
+  return [{ id: 1, title: "Mock Match (synthetic)", ...mockMatchFields(), status: "ready" }, ...seeded];
+}
+
+// Kept on globalThis so dev-server hot reloads don't wipe uploaded matches
+const state: MockState = (globalThis.__feMockState ||= {
+  matches: seedMatches(),
+  jobs: {},
+  nextId: Math.max(0, Number(process.env.MOCK_MATCHES) || 0) + 2,
+});
+
+const notFound = (what: string): MockResponse => ({ status: 404, body: { detail: `${what} not found` } });
+
+const findMatch = (id: number) => state.matches.find(m => m.id === id);
+
+// RQ-style status with ISO timestamps; a job counts as started after its first second
+function jobStatus(job: MockJob): JobStatus {
+  const iso = (t: number) => new Date(t).toISOString();
+  const elapsed = (job.canceled ?? Date.now()) - job.started;
+  const match = findMatch(job.match_id);
+  const base = {
+    job_id: job.job_id,
+    enqueued_at: iso(job.started),
+    started_at: elapsed >= 1000 ? iso(job.started + 1000) : null,
+    ended_at: null,
+  };
+  if (job.canceled) return { ...base, status: "canceled", progress: Math.round((elapsed / JOB_DURATION_MS) * 100), note: "canceled", ended_at: iso(job.canceled) };
+  if (elapsed < 1000) return { ...base, status: "queued", progress: 0, note: "queued" };
+  const progress = Math.min(100, Math.round((elapsed / JOB_DURATION_MS) * 100));
+  // Titles containing "fail" exercise the error path
+  if (match && /fail/i.test(match.title) && progress >= 50) {
+    return { ...base, status: "failed", progress: 50, exc: "Mock pipeline failure (title contains \"fail\")", ended_at: iso(job.started + JOB_DURATION_MS / 2) };
+  }
+  if (progress >= 100) return { ...base, status: "finished", progress: 100, note: "done", ended_at: iso(job.started + JOB_DURATION_MS) };
+  const note = JOB_STEPS[Math.min(JOB_STEPS.length - 1, Math.floor((progress / 100) * JOB_STEPS.length))];
+  return { ...base, status: "started", progress, note };
+}
+
+// The latest job decides the status; without one (or after a cancel) the stored status stands
+function withStatus(match: Match): Match {
+  const latest = Object.values(state.jobs)
+    .filter(j => j.match_id === match.id)
+    .sort((x, y) => y.started - x.started)[0];
+  if (!latest) return match;
+  const job = jobStatus(latest).status;
+  if (job === "finished") return { ...match, status: "ready" };
+  if (job === "failed") return { ...match, status: "failed" };
+  if (job === "canceled") return match;
+  return { ...match, status: "processing" };
+}
+
+// Current status for the job event stream, null for unknown jobs
+export const mockJobStatus = (jobId: string) => (state.jobs[jobId] ? jobStatus(state.jobs[jobId]) : null);
+
+export function handleMockRequest(
+  method: string,
+  path: string[],
+  query: Record<string, string>,
+  body: Record<string, string> = {}
+): MockResponse {
+  const [root, a, b] = path;
+  const matchId = Number(query.match_id ?? a);
+
+  if (method === "GET" && root === "matches" && !a) return { status: 200, body: state.matches.map(withStatus) };
+
+  if (method === "PATCH" && root === "matches" && a && !b) {
+    const match = findMatch(matchId);
+    if (!match) return notFound("Match");
+    const title = (body.title || "").trim();
+    if (!title) return { status: 422, body: { detail: "Title must not be empty" } };
+    match.title = title;
+    return { status: 200, body: withStatus(match) };
+  }
+
+  if (method === "DELETE" && root === "matches" && a && !b) {
+    if (!findMatch(matchId)) return notFound("Match");
+    state.matches = state.matches.filter(m => m.id !== matchId);
+    for (const [id, job] of Object.entries(state.jobs)) if (job.match_id === matchId) delete state.jobs[id];
+    return { status: 204 };
+  }
+
+  if (method === "GET" && root === "matches") {
+    const match = findMatch(matchId);
+    if (!match) return notFound("Match");
+    if (!b) return { status: 200, body: withStatus(match) };
+    if (b === "detections") return { status: 200, body: mockDetections() };
+    if (b === "tracks") return { status: 200, body: mockTracks(matchId) };
+    if (b === "homography") return { status: 200, body: mockHomography() };
+  }
+
+  if (method === "GET" && root === "analytics") {
+    if (!findMatch(matchId)) return notFound("Match");
+    if (b === "possession") return { status: 200, body: mockPossession() };
+    if (b === "control_zones") return { status: 200, body: mockControlZones() };
+    if (b === "momentum") return { status: 200, body: mockMomentum() };
+  }
+
+  if (method === "POST" && root === "ingest" && a === "video") {
+    const match: Match = { id: state.nextId++, title: body.title || "Untitled", ...mockMatchFields(), status: "uploaded" };
+    state.matches.push(match);
+    return { status: 200, body: match };
+  }
+
+  if (method === "POST" && root === "jobs" && a === "pipeline") {
+    if (!findMatch(matchId)) return notFound("Match");
+    const job: MockJob = { job_id: `mock-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}-${matchId}`, match_id: matchId, started: Date.now() };
+    state.jobs[job.job_id] = job;
+    return { status: 200, body: { job_id: job.job_id } };
+  }
+
+  if (method === "POST" && root === "jobs" && a && b === "cancel") {
+    const job = state.jobs[a];
+    if (!job) return notFound("Job");
+    const current = jobStatus(job);
+    if (["finished", "failed", "canceled"].includes(current.status)) {
+      return { status: 409, body: { detail: `Job already ${current.status}` } };
+    }
+    job.canceled = Date.now();
+    return { status: 200, body: jobStatus(job) };
+  }
+
+  if (method === "GET" && root === "jobs" && a) {
+    const job = state.jobs[a];
+    return job ? { status: 200, body: jobStatus(job) } : notFound("Job");
+  }
+
+  if (method === "POST" && (root === "analytics" || (root === "teams" && a === "assign"))) {
+    return findMatch(matchId) ? { status: 200, body: { ok: true } } : notFound("Match");
+  }
+
+  return notFound(`${method} /${path.join("/")}`);
+}
@@ -0,0 +1,228 @@
+// Deterministic synthetic match used by the mock backend: 22 players, a referee
+// and a ball moving on a 120x70 m pitch, seen through a fixed broadcast camera.
+import { invert3x3, projectPitchToImage } from "../homography";
+import { pitchModel } from "../pitch";
+import type {
+  ControlZoneData,
+  Detection,
+  HomographySegment,
+  MomentumData,
+  PossessionData,
+  Track,
+} from "../types";
+
+export const MOCK_FPS = 25;
+export const MOCK_FRAMES = 60 * MOCK_FPS;
+export const MOCK_PITCH = { length: 120, width: 70 };
+const PITCH_M = MOCK_PITCH.length;
+const PITCH_N = MOCK_PITCH.width;
+const IMG_W = 1280;
+const IMG_H = 720;
+const BALL_ID = 99;
+const REFEREE_ID = 50;
+
+// pitch metres -> image pixels (far touchline at the top, near touchline wider and lower)
+const CAMERA = [
+  [8.33, -3.2, 140],
+  [0, 4.79, 120],
+  [0, -0.005, 1],
+];
+const H = invert3x3(CAMERA)!;
+
+// mulberry32, so fixtures are identical across server restarts
+const rng = (seed: number) => () => {
+  seed |= 0; seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// 4-4-2 base positions for the team attacking right; team 2 is mirrored
+const FORMATION: Array<[number, number]> = [
+  [6, 35],
+  [22, 10], [20, 27], [20, 43], [22, 60],
+  [40, 12], [37, 28], [37, 42], [40, 58],
+  [52, 28], [52, 42],
+];
+
+type Player = { object_id: number; team_id: number; baseX: number; baseY: number; phase: number; amp: number };
+
+const PLAYERS: Player[] = (() => {
+  const rand = rng(7);
+  const players: Player[] = [];
+  FORMATION.forEach(([x, y], i) => {
+    players.push({ object_id: i + 1, team_id: 1, baseX: x, baseY: y, phase: rand() * Math.PI * 2, amp: 2 + rand() * 4 });
+    players.push({ object_id: i + 12, team_id: 2, baseX: PITCH_M - x, baseY: PITCH_N - y, phase: rand() * Math.PI * 2, amp: 2 + rand() * 4 });
+  });
+  return players;
+})();
+
+// Both teams drift up and down the pitch together as play swings
+const teamShift = (t: number) => 14 * Math.sin((2 * Math.PI * t) / 40);
+
+const playerPos = (p: Player, t: number) => ({
+  x: p.baseX + teamShift(t) + p.amp * Math.sin(0.35 * t + p.phase),
+  y: p.baseY + p.amp * Math.cos(0.27 * t + p.phase),
+});
+
+// Possession alternates in spells; the ball sits at the holder's feet
+const SPELL_S = 6;
+const PASS_S = 1.5;
+const holderAt = (t: number): Player | null => {
+  const spell = Math.floor(t / SPELL_S);
+  const inSpell = t - spell * SPELL_S;
+  if (inSpell > SPELL_S - 0.5) return null; // loose ball between spells
+  const team = spell % 2 === 0 ? 1 : 2;
+  const squad = PLAYERS.filter(p => p.team_id === team && p.baseX !== 6 && p.baseX !== PITCH_M - 6);
+  return squad[(spell * 3 + Math.floor(inSpell / PASS_S)) % squad.length];
+};
+
+const ballPos = (t: number) => {
+  const holder = holderAt(t);
+  if (holder) {
+    const p = playerPos(holder, t);
+    return { x: p.x + 0.8, y: p.y + 0.4 };
+  }
+  const spellStart = Math.floor(t / SPELL_S) * SPELL_S;
+  const a = holderAt(spellStart + SPELL_S - 0.6)!;
+  const b = holderAt(spellStart + SPELL_S)!;
+  const k = (t - (spellStart + SPELL_S - 0.5)) / 0.5;
+  const pa = playerPos(a, t);
+  const pb = playerPos(b, t);
+  return { x: pa.x + (pb.x - pa.x) * k, y: pa.y + (pb.y - pa.y) * k };
+};
+
+const refereePos = (t: number) => ({ x: PITCH_M / 2 + teamShift(t) * 1.2, y: PITCH_N / 2 + 12 * Math.sin(0.1 * t) });
+
+const toBox = (X: number, Y: number, heightM: number, aspect: number) => {
+  const foot = projectPitchToImage(CAMERA, X, Y);
+  if (!foot) return null;
+  const scale = 1 / (CAMERA[2][1] * Y + 1); // apparent size grows towards the near touchline
+  const h = heightM * 24 * scale;
+  const w = h * aspect;
+  const box = { x1: foot.x - w / 2, y1: foot.y - h, x2: foot.x + w / 2, y2: foot.y };
+  if (box.x2 < 0 || box.x1 > IMG_W || box.y2 < 0 || box.y1 > IMG_H) return null;
+  return box;
+};
+
+let detectionsCache: Detection[] | null = null;
+
+export function mockDetections(): Detection[] {
+  if (detectionsCache) return detectionsCache;
+  const rand = rng(42);
+  const rows: Detection[] = [];
+  for (let f = 0; f < MOCK_FRAMES; f++) {
+    const t = f / MOCK_FPS;
+    const filename = `frame_${String(f).padStart(6, "0")}.jpg`;
+    const push = (object_id: number, class_name: string, X: number, Y: number, heightM: number, aspect: number) => {
+      const box = toBox(X, Y, heightM, aspect);
+      if (!box) return;
+      rows.push({ frame_id: f, filename, class_name, conf: 0.55 + rand() * 0.4, ...box, object_id });
+    };
+    for (const p of PLAYERS) {
+      const { x, y } = playerPos(p, t);
+      const isKeeper = p.baseX === 6 || p.baseX === PITCH_M - 6;
+      push(p.object_id, isKeeper ? "goalkeeper" : "player", x, y, 1.8, 0.45);
+    }
+    const ref = refereePos(t);
+    push(REFEREE_ID, "referee", ref.x, ref.y, 1.8, 0.45);
+    const ball = ballPos(t);
+    push(BALL_ID, "ball", ball.x, ball.y, 0.4, 1);
+  }
+  detectionsCache = rows;
+  return rows;
+}
+
+export function mockTracks(matchId: number): Track[] {
+  const counts: Record<number, number> = {};
+  for (const d of mockDetections()) {
+    if (d.object_id !== null) counts[d.object_id] = (counts[d.object_id] || 0) + 1;
+  }
+  return PLAYERS.map(p => ({
+    match_id: matchId,
+    object_id: p.object_id,
+    n_samples: counts[p.object_id] || 0,
+    team_id: p.team_id,
+  }));
+}
+
+const KEYPOINTS = [
+  "center_top",
+  "center_circle_top",
+  "center_circle_bottom",
+  "center_bottom",
+  "left_penalty_box_top_right",
+  "left_penalty_box_bottom_right",
+  "right_penalty_box_top_left",
+  "right_penalty_box_bottom_left",
+] as const;
+
+export function mockHomography(): HomographySegment[] {
+  const { keypoints } = pitchModel(MOCK_PITCH);
+  const keypoints_img = KEYPOINTS
+    .map(name => ({ name, ...projectPitchToImage(CAMERA, keypoints[name][0], keypoints[name][1])! }))
+    .filter(kp => kp.x >= 0 && kp.x <= IMG_W && kp.y >= 0 && kp.y <= IMG_H);
+  // Two segments with a short uncalibrated gap between them, like a real camera cut
+  return [
+    { frame_start: 0, frame_end: 899, H, keypoints_img },
+    { frame_start: 925, frame_end: MOCK_FRAMES - 1, H, keypoints_img },
+  ];
+}
+
+export function mockPossession(): PossessionData {
+  const series = [];
+  for (let f = 0; f < MOCK_FRAMES; f++) {
+    const holder = holderAt(f / MOCK_FPS);
+    series.push({ frame_id: f, team: holder ? holder.team_id : null, time_s: f / MOCK_FPS });
+  }
+  return { series };
+}
+
+// Coarse 2 m grid nearest-player split of the pitch
+const areaShare = (t: number) => {
+  const positions = PLAYERS.map(p => ({ team: p.team_id, ...playerPos(p, t) }));
+  let team1 = 0;
+  let total = 0;
+  for (let x = 1; x < PITCH_M; x += 2) {
+    for (let y = 1; y < PITCH_N; y += 2) {
+      let best = Infinity;
+      let team = 0;
+      for (const p of positions) {
+        const d = (p.x - x) ** 2 + (p.y - y) ** 2;
+        if (d < best) { best = d; team = p.team; }
+      }
+      if (team === 1) team1++;
+      total++;
+    }
+  }
+  return (team1 / total) * 100;
+};
+
+export function mockControlZones(stride = 5): ControlZoneData {
+  const series = [];
+  for (let f = 0; f < MOCK_FRAMES; f += stride) {
+    const pct = areaShare(f / MOCK_FPS);
+    series.push({ frame_id: f, time_s: f / MOCK_FPS, team1_area_pct: pct, team2_area_pct: 100 - pct });
+  }
+  return { series };
+}
+
+// Momentum: 10 s trailing blend of possession share and territory
+export function mockMomentum(stride = 5): MomentumData {
+  const possession = mockPossession().series;
+  const window = 10 * MOCK_FPS;
+  const series = [];
+  for (let f = 0; f < MOCK_FRAMES; f += stride) {
+    let t1 = 0;
+    let t2 = 0;
+    for (let k = Math.max(0, f - window); k <= f; k++) {
+      if (possession[k].team === 1) t1++;
+      else if (possession[k].team === 2) t2++;
+    }
+    const share = t1 + t2 > 0 ? t1 / (t1 + t2) : 0.5;
+    const territory = areaShare(f / MOCK_FPS) / 100;
+    const team1 = Math.round((0.7 * share + 0.3 * territory) * 100);
+    series.push({ frame_id: f, time_s: f / MOCK_FPS, team1_momentum: team1, team2_momentum: 100 - team1 });
+  }
+  return { series };
+}
@@ -0,0 +1,213 @@
+// Pitch model in metres, built from a match's length and width with the fixed
+// markings of the Laws of the Game. Single source for the radar drawing, the
+// video pitch overlay, calibration and in-bounds checks.
+
+export type PitchDimensions = { length: number; width: number };
+
+// What the pipeline assumed before matches carried their own dimensions
+export const DEFAULT_PITCH: PitchDimensions = { length: 120, width: 70 };
+
+// Laws of the Game limits for the touchline (length) and goal line (width)
+export const PITCH_LIMITS = { length: [90, 120], width: [45, 90] } as const;
+
+// Fixed markings, metres
+const PENALTY_AREA_DEPTH = 16.5;
+const PENALTY_AREA_WIDTH = 40.32;
+const GOAL_AREA_DEPTH = 5.5;
+const GOAL_AREA_WIDTH = 18.32;
+const PENALTY_MARK = 11;
+const CIRCLE_R = 9.15; // centre circle and penalty arcs
+const CORNER_R = 1;
+const GOAL_WIDTH = 7.32;
+const GOAL_DEPTH = 2; // drawn behind the goal line
+
+export const PITCH_POINT_NAMES = [
+  "corner_top_left",
+  "left_penalty_box_top_left",
+  "left_six_box_top_left",
+  "left_six_box_bottom_left",
+  "left_penalty_box_bottom_left",
+  "corner_bottom_left",
+  "left_six_box_top_right",
+  "left_six_box_bottom_right",
+  "left_penalty_spot",
+  "left_penalty_box_top_right",
+  "left_penalty_box_center_top",
+  "left_penalty_box_center_bottom",
+  "left_penalty_box_bottom_right",
+  "center_top",
+  "center_circle_top",
+  "center_circle_bottom",
+  "center_bottom",
+  "right_penalty_box_top_left",
+  "right_penalty_box_center_top",
+  "right_penalty_box_center_bottom",
+  "right_penalty_box_bottom_left",
+  "right_penalty_spot",
+  "right_six_box_top_left",
+  "right_six_box_bottom_left",
+  "corner_top_right",
+  "right_penalty_box_top_right",
+  "right_six_box_top_right",
+  "right_six_box_bottom_right",
+  "right_penalty_box_bottom_right",
+  "corner_bottom_right",
+  "center_circle_left",
+  "center_circle_right",
+] as const;
+
+export type PitchPointName = typeof PITCH_POINT_NAMES[number];
+
+// Straight markings as keypoint pairs
+export const PITCH_LINES: [PitchPointName, PitchPointName][] = [
+  ["corner_top_left", "left_penalty_box_top_left"],
+  ["left_penalty_box_top_left", "left_six_box_top_left"],
+  ["left_six_box_top_left", "left_six_box_bottom_left"],
+  ["left_six_box_bottom_left", "left_penalty_box_bottom_left"],
+  ["left_penalty_box_bottom_left", "corner_bottom_left"],
+  ["left_penalty_box_top_left", "left_penalty_box_top_right"],
+  ["left_six_box_top_left", "left_six_box_top_right"],
+  ["left_six_box_bottom_left", "left_six_box_bottom_right"],
+  ["left_penalty_box_bottom_left", "left_penalty_box_bottom_right"],
+  ["left_six_box_top_right", "left_six_box_bottom_right"],
+  ["left_penalty_box_top_right", "left_penalty_box_center_top"],
+  ["left_penalty_box_center_top", "left_penalty_box_center_bottom"],
+  ["left_penalty_box_center_bottom", "left_penalty_box_bottom_right"],
+  ["center_top", "center_circle_top"],
+  ["center_circle_top", "center_circle_bottom"],
+  ["center_circle_bottom", "center_bottom"],
+  ["corner_top_left", "center_top"],
+  ["corner_bottom_left", "center_bottom"],
+  ["center_top", "corner_top_right"],
+  ["center_bottom", "corner_bottom_right"],
+  ["corner_top_right", "right_penalty_box_top_right"],
+  ["right_penalty_box_top_right", "right_six_box_top_right"],
+  ["right_six_box_top_right", "right_six_box_bottom_right"],
+  ["right_six_box_bottom_right", "right_penalty_box_bottom_right"],
+  ["right_penalty_box_bottom_right", "corner_bottom_right"],
+  ["right_penalty_box_top_right", "right_penalty_box_top_left"],
+  ["right_six_box_top_right", "right_six_box_top_left"],
+  ["right_six_box_bottom_right", "right_six_box_bottom_left"],
+  ["right_penalty_box_bottom_right", "right_penalty_box_bottom_left"],
+  ["right_six_box_top_left", "right_six_box_bottom_left"],
+  ["right_penalty_box_top_left", "right_penalty_box_center_top"],
+  ["right_penalty_box_center_top", "right_penalty_box_center_bottom"],
+  ["right_penalty_box_center_bottom", "right_penalty_box_bottom_left"],
+];
+
+// Circular marking; angles in radians, measured from +x towards +y
+export type PitchArc = { cx: number; cy: number; r: number; start: number; end: number };
+
+export type PitchModel = PitchDimensions & {
+  keypoints: Record<PitchPointName, [number, number]>;
+  lines: [PitchPointName, PitchPointName][];
+  arcs: PitchArc[]; // centre circle, penalty arcs, corner arcs
+  goals: [number, number][][]; // open polylines behind each goal line
+  spots: [number, number][]; // centre and penalty marks
+};
+
+export function pitchModel({ length: L, width: W }: PitchDimensions): PitchModel {
+  const midY = W / 2;
+  const pa = (W - PENALTY_AREA_WIDTH) / 2;
+  const ga = (W - GOAL_AREA_WIDTH) / 2;
+  // Where the penalty arc meets the edge of the penalty area
+  const dHalf = Math.sqrt(CIRCLE_R ** 2 - (PENALTY_AREA_DEPTH - PENALTY_MARK) ** 2);
+  const dAngle = Math.acos((PENALTY_AREA_DEPTH - PENALTY_MARK) / CIRCLE_R);
+
+  const keypoints: Record<PitchPointName, [number, number]> = {
+    corner_top_left: [0, 0],
+    left_penalty_box_top_left: [0, pa],
+    left_six_box_top_left: [0, ga],
+    left_six_box_bottom_left: [0, W - ga],
+    left_penalty_box_bottom_left: [0, W - pa],
+    corner_bottom_left: [0, W],
+    left_six_box_top_right: [GOAL_AREA_DEPTH, ga],
+    left_six_box_bottom_right: [GOAL_AREA_DEPTH, W - ga],
+    left_penalty_spot: [PENALTY_MARK, midY],
+    left_penalty_box_top_right: [PENALTY_AREA_DEPTH, pa],
+    left_penalty_box_center_top: [PENALTY_AREA_DEPTH, midY - dHalf],
+    left_penalty_box_center_bottom: [PENALTY_AREA_DEPTH, midY + dHalf],
+    left_penalty_box_bottom_right: [PENALTY_AREA_DEPTH, W - pa],
+    center_top: [L / 2, 0],
+    center_circle_top: [L / 2, midY - CIRCLE_R],
+    center_circle_bottom: [L / 2, midY + CIRCLE_R],
+    center_bottom: [L / 2, W],
+    right_penalty_box_top_left: [L - PENALTY_AREA_DEPTH, pa],
+    right_penalty_box_center_top: [L - PENALTY_AREA_DEPTH, midY - dHalf],
+    right_penalty_box_center_bottom: [L - PENALTY_AREA_DEPTH, midY + dHalf],
+    right_penalty_box_bottom_left: [L - PENALTY_AREA_DEPTH, W - pa],
+    right_penalty_spot: [L - PENALTY_MARK, midY],
+    right_six_box_top_left: [L - GOAL_AREA_DEPTH, ga],
+    right_six_box_bottom_left: [L - GOAL_AREA_DEPTH, W - ga],
+    corner_top_right: [L, 0],
+    right_penalty_box_top_right: [L, pa],
+    right_six_box_top_right: [L, ga],
+    right_six_box_bottom_right: [L, W - ga],
+    right_penalty_box_bottom_right: [L, W - pa],
+    corner_bottom_right: [L, W],
+    center_circle_left: [L / 2 - CIRCLE_R, midY],
+    center_circle_right: [L / 2 + CIRCLE_R, midY],
+  };
+
+  const arcs: PitchArc[] = [
+    { cx: L / 2, cy: midY, r: CIRCLE_R, start: 0, end: 2 * Math.PI },
+    // Only the part of each penalty arc outside the penalty area is marked
+    { cx: PENALTY_MARK, cy: midY, r: CIRCLE_R, start: -dAngle, end: dAngle },
+    { cx: L - PENALTY_MARK, cy: midY, r: CIRCLE_R, start: Math.PI - dAngle, end: Math.PI + dAngle },
+    { cx: 0, cy: 0, r: CORNER_R, start: 0, end: Math.PI / 2 },
+    { cx: L, cy: 0, r: CORNER_R, start: Math.PI / 2, end: Math.PI },
+    { cx: L, cy: W, r: CORNER_R, start: Math.PI, end: 1.5 * Math.PI },
+    { cx: 0, cy: W, r: CORNER_R, start: 1.5 * Math.PI, end: 2 * Math.PI },
+  ];
+
+  const g0 = midY - GOAL_WIDTH / 2;
+  const g1 = midY + GOAL_WIDTH / 2;
+  const goals: [number, number][][] = [
+    [[0, g0], [-GOAL_DEPTH, g0], [-GOAL_DEPTH, g1], [0, g1]],
+    [[L, g0], [L + GOAL_DEPTH, g0], [L + GOAL_DEPTH, g1], [L, g1]],
+  ];
+
+  return {
+    length: L,
+    width: W,
+    keypoints,
+    lines: PITCH_LINES,
+    arcs,
+    goals,
+    spots: [[L / 2, midY], [PENALTY_MARK, midY], [L - PENALTY_MARK, midY]],
+  };
+}
+
+// Plain-data check so it also runs inside workers; margin extends past the lines
+export const inBounds = (pitch: PitchDimensions, x: number, y: number, margin = 0) =>
+  x >= -margin && x <= pitch.length + margin && y >= -margin && y <= pitch.width + margin;
+
+// Per-match dimensions: a local override wins over the match record, then the default
+const pitchKey = (matchId: number) => `fe:pitch:${matchId}`;
+
+export function loadPitchOverride(matchId: number): PitchDimensions | null {
+  try { return JSON.parse(localStorage.getItem(pitchKey(matchId)) || "null"); } catch { return null; }
+}
+export function savePitchOverride(matchId: number, dims: PitchDimensions | null) {
+  if (dims) localStorage.setItem(pitchKey(matchId), JSON.stringify(dims));
+  else localStorage.removeItem(pitchKey(matchId));
+}
+
+export const matchPitch = (match: { pitch_length?: number | null; pitch_width?: number | null } | null): PitchDimensions =>
+  match?.pitch_length && match?.pitch_width ? { length: match.pitch_length, width: match.pitch_width } : DEFAULT_PITCH;
+
+// Points along an arc, roughly every `step` metres
+export const sampleArc = (arc: PitchArc, step = 0.5): [number, number][] => {
+  const n = Math.max(2, Math.ceil((Math.abs(arc.end - arc.start) * arc.r) / step));
+  return Array.from({ length: n + 1 }, (_, i) => {
+    const a = arc.start + ((arc.end - arc.start) * i) / n;
+    return [arc.cx + arc.r * Math.cos(a), arc.cy + arc.r * Math.sin(a)] as [number, number];
+  });
+};
+
+// Every marking as a polyline in pitch metres, ready to be projected into the image
+export const pitchMarkings = (model: PitchModel): [number, number][][] => [
+  ...model.lines.map(([a, b]) => [model.keypoints[a], model.keypoints[b]]),
+  ...model.arcs.map(arc => sampleArc(arc)),
+  ...model.goals,
+];
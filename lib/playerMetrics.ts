@@ -0,0 +1,194 @@
+// Physical metrics per player from homography-projected tracks. Each track is
+// projected to pitch metres, split into continuous runs wherever calibration or
+// detections drop out, smoothed, and only then differentiated into speeds.
+import { buildDetectionStore, type DetectionStore } from "./detectionStore";
+import { projectImageToPitch } from "./homography";
+import { inBounds, type PitchDimensions } from "./pitch";
+import type { Detection, HomographySegment } from "./types";
+
+// km/h lower bounds; the last band is sprinting
+export const SPEED_BANDS = [
+  { name: "walk", min: 0 },
+  { name: "jog", min: 7 },
+  { name: "run", min: 14 },
+  { name: "high speed", min: 20 },
+  { name: "sprint", min: 25 },
+] as const;
+
+const MAX_GAP_S = 0.5; // longer holes end a run instead of being bridged
+const MAX_SPEED_MS = 12; // faster steps are projection glitches, not athletes
+const SMOOTH_S = 0.4; // centred moving-average window
+const SPRINT_MIN_S = 1; // a sprint must hold the top band this long
+const PITCH_MARGIN_M = 3;
+
+export type PlayerMetrics = {
+  object_id: number;
+  team: number | null;
+  distance_m: number;
+  top_speed_kmh: number;
+  band_s: number[]; // seconds per SPEED_BANDS entry
+  sprints: number;
+  avg_x: number;
+  avg_y: number;
+  tracked_s: number;
+};
+
+export type TeamMetrics = {
+  team: number;
+  players: number;
+  distance_m: number;
+  top_speed_kmh: number;
+  band_s: number[];
+  sprints: number;
+  avg_x: number;
+  avg_y: number;
+};
+
+export type MetricsResult = { players: PlayerMetrics[]; teams: TeamMetrics[] };
+
+export type MetricsInput = {
+  detections: Detection[];
+  homography: HomographySegment[];
+  tracksMap: Record<number, number>;
+  fps: number;
+  pitch: PitchDimensions;
+};
+
+type Sample = { frame: number; x: number; y: number };
+
+// Consecutive projected samples of one track, split at calibration or detection gaps
+function projectRuns(store: DetectionStore, objectId: number, segments: HomographySegment[], input: MetricsInput): Sample[][] {
+  const { fps, pitch } = input;
+  const maxGap = Math.max(1, Math.round(MAX_GAP_S * fps));
+  const runs: Sample[][] = [];
+  let run: Sample[] = [];
+  let segIdx = 0;
+  let runSeg = -1;
+
+  for (const d of store.byObject(objectId)) {
+    while (segIdx < segments.length && segments[segIdx].frame_end < d.frame_id) segIdx++;
+    const seg = segments[segIdx];
+    if (!seg || seg.frame_start > d.frame_id) continue; // uncalibrated frame
+
+    const p = projectImageToPitch(seg.H, (d.x1 + d.x2) / 2, d.y2);
+    if (!p) continue;
+    if (!inBounds(pitch, p.x, p.y, PITCH_MARGIN_M)) continue;
+
+    const prev = run[run.length - 1];
+    const broken = prev && (
+      d.frame_id - prev.frame > maxGap ||
+      segIdx !== runSeg || // different H: positions jump at segment boundaries
+      Math.hypot(p.x - prev.x, p.y - prev.y) / ((d.frame_id - prev.frame) / fps) > MAX_SPEED_MS
+    );
+    if (broken) {
+      if (run.length > 1) runs.push(run);
+      run = [];
+    }
+    run.push({ frame: d.frame_id, x: p.x, y: p.y });
+    runSeg = segIdx;
+  }
+  if (run.length > 1) runs.push(run);
+  return runs;
+}
+
+// Centred moving average over a time window (frames may be unevenly spaced)
+function smooth(run: Sample[], halfWindow: number): Sample[] {
+  let lo = 0;
+  let hi = 0;
+  let sx = 0;
+  let sy = 0;
+  return run.map(s => {
+    while (hi < run.length && run[hi].frame <= s.frame + halfWindow) { sx += run[hi].x; sy += run[hi].y; hi++; }
+    while (run[lo].frame < s.frame - halfWindow) { sx -= run[lo].x; sy -= run[lo].y; lo++; }
+    return { frame: s.frame, x: sx / (hi - lo), y: sy / (hi - lo) };
+  });
+}
+
+const bandOf = (kmh: number) => {
+  let band = 0;
+  SPEED_BANDS.forEach((b, i) => { if (kmh >= b.min) band = i; });
+  return band;
+};
+
+function playerMetrics(objectId: number, team: number | null, runs: Sample[][], fps: number): PlayerMetrics {
+  const halfWindow = Math.max(1, Math.round((SMOOTH_S * fps) / 2));
+  const sprintBand = SPEED_BANDS.length - 1;
+  const band_s = SPEED_BANDS.map(() => 0);
+  let distance = 0;
+  let topSpeed = 0;
+  let sprints = 0;
+  let sumX = 0;
+  let sumY = 0;
+  let n = 0;
+  let tracked = 0;
+
+  for (const raw of runs) {
+    const run = smooth(raw, halfWindow);
+    let sprintFor = 0;
+    let counted = false;
+    for (let i = 1; i < run.length; i++) {
+      const dt = (run[i].frame - run[i - 1].frame) / fps;
+      const step = Math.hypot(run[i].x - run[i - 1].x, run[i].y - run[i - 1].y);
+      const kmh = (step / dt) * 3.6;
+      distance += step;
+      tracked += dt;
+      topSpeed = Math.max(topSpeed, kmh);
+      const band = bandOf(kmh);
+      band_s[band] += dt;
+
+      if (band === sprintBand) {
+        sprintFor += dt;
+        if (sprintFor >= SPRINT_MIN_S && !counted) { sprints++; counted = true; }
+      } else {
+        sprintFor = 0;
+        counted = false;
+      }
+    }
+    for (const s of run) { sumX += s.x; sumY += s.y; n++; }
+  }
+
+  return {
+    object_id: objectId,
+    team,
+    distance_m: distance,
+    top_speed_kmh: topSpeed,
+    band_s,
+    sprints,
+    avg_x: n ? sumX / n : NaN,
+    avg_y: n ? sumY / n : NaN,
+    tracked_s: tracked,
+  };
+}
+
+export function computeMetrics(input: MetricsInput): MetricsResult {
+  const store = buildDetectionStore(input.detections);
+  const segments = input.homography.slice().sort((a, b) => a.frame_start - b.frame_start);
+
+  const players: PlayerMetrics[] = [];
+  for (const objectId of store.objectIds()) {
+    const cls = (store.classOf(objectId) || "").toLowerCase();
+    if (cls !== "player" && cls !== "goalkeeper") continue;
+    const runs = projectRuns(store, objectId, segments, input);
+    if (!runs.length) continue;
+    players.push(playerMetrics(objectId, input.tracksMap[objectId] || null, runs, input.fps));
+  }
+
+  const teams: TeamMetrics[] = [];
+  for (const team of [1, 2]) {
+    const squad = players.filter(p => p.team === team && p.tracked_s > 0);
+    if (!squad.length) continue;
+    teams.push({
+      team,
+      players: squad.length,
+      distance_m: squad.reduce((a, p) => a + p.distance_m, 0),
+      top_speed_kmh: Math.max(...squad.map(p => p.top_speed_kmh)),
+      band_s: SPEED_BANDS.map((_, i) => squad.reduce((a, p) => a + p.band_s[i], 0)),
+      sprints: squad.reduce((a, p) => a + p.sprints, 0),
+      avg_x: squad.reduce((a, p) => a + p.avg_x, 0) / squad.length,
+      avg_y: squad.reduce((a, p) => a + p.avg_y, 0) / squad.length,
+    });
+  }
+
+  players.sort((a, b) => b.distance_m - a.distance_m);
+  return { players, teams };
+}
@@ -0,0 +1,80 @@
+// Parameters for a pipeline run and the fast analytics after it, with named
+// presets for common camera setups. User presets and the last choice live in
+// localStorage; the parameters each match was processed with are kept per match.
+
+export type PipelineParams = {
+  conf_thres: number; // detector confidence threshold
+  max_dist_m: number; // possession: max player-ball distance
+  stride: number; // control zones and momentum: frames between samples
+};
+
+export type Preset = { name: string; params: PipelineParams; builtin?: boolean };
+
+// What every upload used before presets existed
+export const DEFAULT_PARAMS: PipelineParams = { conf_thres: 0.1, max_dist_m: 4, stride: 5 };
+
+export const BUILTIN_PRESETS: Preset[] = [
+  { name: "Broadcast wide-angle", params: DEFAULT_PARAMS, builtin: true },
+  // Fixed high camera covering the whole pitch: small players, long recordings
+  { name: "Tactical cam", params: { conf_thres: 0.05, max_dist_m: 4, stride: 10 }, builtin: true },
+  // Smaller pitch and players, tighter play around the ball
+  { name: "Youth pitch", params: { conf_thres: 0.15, max_dist_m: 3, stride: 5 }, builtin: true },
+];
+
+export const PARAM_LIMITS: Record<keyof PipelineParams, { min: number; max: number; step: number }> = {
+  conf_thres: { min: 0.01, max: 0.9, step: 0.01 },
+  max_dist_m: { min: 0.5, max: 10, step: 0.5 },
+  stride: { min: 1, max: 50, step: 1 },
+};
+
+const PRESETS_KEY = "fe:param-presets";
+const LAST_PARAMS_KEY = "fe:upload-params";
+const matchParamsKey = (matchId: number) => `fe:params:${matchId}`;
+
+export const clampParams = (p: PipelineParams): PipelineParams => {
+  const clamp = (k: keyof PipelineParams) => Math.min(PARAM_LIMITS[k].max, Math.max(PARAM_LIMITS[k].min, Number(p[k]) || DEFAULT_PARAMS[k]));
+  return { conf_thres: clamp("conf_thres"), max_dist_m: clamp("max_dist_m"), stride: Math.round(clamp("stride")) };
+};
+
+export const sameParams = (a: PipelineParams, b: PipelineParams) =>
+  a.conf_thres === b.conf_thres && a.max_dist_m === b.max_dist_m && a.stride === b.stride;
+
+export function loadUserPresets(): Preset[] {
+  try { return JSON.parse(localStorage.getItem(PRESETS_KEY) || "[]"); } catch { return []; }
+}
+// Saving under an existing name replaces that preset
+export function saveUserPreset(preset: Preset) {
+  const presets = loadUserPresets().filter(p => p.name !== preset.name);
+  localStorage.setItem(PRESETS_KEY, JSON.stringify([...presets, { name: preset.name, params: preset.params }]));
+}
+export function deleteUserPreset(name: string) {
+  localStorage.setItem(PRESETS_KEY, JSON.stringify(loadUserPresets().filter(p => p.name !== name)));
+}
+
+export const allPresets = () => [...BUILTIN_PRESETS, ...loadUserPresets()];
+
+// Name of the preset these parameters match, if any
+export const presetName = (params: PipelineParams, presets = allPresets()) =>
+  presets.find(p => sameParams(p.params, params))?.name ?? null;
+
+export const describeParams = (p: PipelineParams) =>
+  `confidence ${p.conf_thres} · possession radius ${p.max_dist_m} m · stride ${p.stride} frames`;
+
+export function loadLastParams(): PipelineParams {
+  try {
+    const saved = JSON.parse(localStorage.getItem(LAST_PARAMS_KEY) || "null");
+    return saved ? clampParams(saved) : DEFAULT_PARAMS;
+  } catch {
+    return DEFAULT_PARAMS;
+  }
+}
+export function saveLastParams(params: PipelineParams) {
+  localStorage.setItem(LAST_PARAMS_KEY, JSON.stringify(params));
+}
+
+export function loadMatchParams(matchId: number): PipelineParams | null {
+  try { return JSON.parse(localStorage.getItem(matchParamsKey(matchId)) || "null"); } catch { return null; }
+}
+export function saveMatchParams(matchId: number, params: PipelineParams) {
+  localStorage.setItem(matchParamsKey(matchId), JSON.stringify(params));
+}
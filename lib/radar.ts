@@ -0,0 +1,51 @@
+// Per-frame radar computation: project detections to pitch metres, drop what
+// falls off the pitch and build the team Voronoi zones. Pure, so it runs the
+// same inside the radar worker and on the main thread as a fallback.
+import { projectImageToPitch } from "./homography";
+import { inBounds, type PitchDimensions } from "./pitch";
+import { teamAreas, voronoiCells, type Site, type VoronoiCell } from "./voronoi";
+
+// Slim detection sent to the worker: image-space foot point (bottom centre of the box)
+export type RadarDetection = {
+  object_id: number | null;
+  class_name: string;
+  conf: number;
+  x: number;
+  y: number;
+};
+
+export type RadarInput = {
+  frame: number;
+  H: number[][] | null;
+  detections: RadarDetection[];
+  pitch: PitchDimensions;
+};
+
+export type RadarObject = RadarDetection & { team: number | null };
+
+export type RadarFrame = {
+  frame: number;
+  objects: RadarObject[]; // pitch metres, in-bounds only
+  cells: VoronoiCell[];
+  areas: Record<number, number>;
+};
+
+export function computeRadarFrame(input: RadarInput, tracksMap: Record<number, number>): RadarFrame {
+  const { frame, H, detections, pitch } = input;
+  if (!H) return { frame, objects: [], cells: [], areas: {} };
+
+  const objects: RadarObject[] = [];
+  const sites: Site[] = [];
+  for (const d of detections) {
+    const cls = d.class_name.toLowerCase();
+    if (cls === "referee") continue;
+    const p = projectImageToPitch(H, d.x, d.y);
+    if (!p || !inBounds(pitch, p.x, p.y)) continue;
+    const team = d.object_id !== null ? tracksMap[d.object_id] || null : null;
+    objects.push({ ...d, x: p.x, y: p.y, team });
+    if (cls === "player" && team) sites.push({ x: p.x, y: p.y, team });
+  }
+
+  const cells = voronoiCells(sites, pitch.length, pitch.width);
+  return { frame, objects, cells, areas: teamAreas(cells) };
+}
@@ -0,0 +1,13 @@
+import { computeRadarFrame, type RadarInput } from "./radar";
+
+export type RadarWorkerMessage =
+  | { type: "tracks"; tracksMap: Record<number, number> }
+  | { type: "frame"; input: RadarInput };
+
+let tracksMap: Record<number, number> = {};
+
+self.addEventListener("message", (e: MessageEvent<RadarWorkerMessage>) => {
+  const msg = e.data;
+  if (msg.type === "tracks") tracksMap = msg.tracksMap;
+  else self.postMessage(computeRadarFrame(msg.input, tracksMap));
+});
@@ -0,0 +1,66 @@
+// Main-thread side of the radar worker. Keeps at most one frame in flight;
+// frames submitted meanwhile replace each other, so scrubbing only ever
+// computes the newest one.
+import { computeRadarFrame, type RadarFrame, type RadarInput } from "./radar";
+import type { RadarWorkerMessage } from "./radar.worker";
+
+export type RadarClient = {
+  setTracks: (tracksMap: Record<number, number>) => void;
+  submit: (input: RadarInput) => void;
+  dispose: () => void;
+};
+
+export function createRadarClient(onFrame: (frame: RadarFrame) => void): RadarClient {
+  // No worker support (old browsers): compute inline
+  if (typeof Worker === "undefined") {
+    let tracksMap: Record<number, number> = {};
+    return {
+      setTracks: m => { tracksMap = m; },
+      submit: input => onFrame(computeRadarFrame(input, tracksMap)),
+      dispose: () => {},
+    };
+  }
+
+  const worker = new Worker(new URL("./radar.worker.ts", import.meta.url));
+  const send = (msg: RadarWorkerMessage) => worker.postMessage(msg);
+  let busy = false;
+  let pending: RadarInput | null = null;
+  let disposed = false;
+
+  // Send the newest queued frame, if any, once the worker is free again
+  const flush = () => {
+    busy = false;
+    if (pending) {
+      send({ type: "frame", input: pending });
+      pending = null;
+      busy = true;
+    }
+  };
+
+  worker.onmessage = (e: MessageEvent<RadarFrame>) => {
+    if (disposed) return;
+    flush();
+    onFrame(e.data);
+  };
+  // A frame that failed is dropped; the radar carries on with the next one
+  worker.onerror = e => {
+    e.preventDefault();
+    if (!disposed) flush();
+  };
+
+  return {
+    setTracks: tracksMap => send({ type: "tracks", tracksMap }),
+    submit: input => {
+      if (busy) {
+        pending = input; // supersedes any older queued frame
+        return;
+      }
+      busy = true;
+      send({ type: "frame", input });
+    },
+    dispose: () => {
+      disposed = true;
+      worker.terminate();
+    },
+  };
+}
@@ -0,0 +1,59 @@
+// Helpers for frame-ordered analytics series ({ frame_id, ... }[])
+
+// Latest sample at or before `frame` (binary search)
+export const sampleAt = <T extends { frame_id: number }>(series: T[] | undefined, frame: number): T | undefined => {
+  if (!series?.length || series[0].frame_id > frame) return undefined;
+  let lo = 0;
+  let hi = series.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (series[mid].frame_id <= frame) lo = mid; else hi = mid - 1;
+  }
+  return series[lo];
+};
+
+// Every k-th sample so at most `max` remain; always keeps the last one
+export const decimate = <T>(series: T[], max: number): T[] => {
+  if (series.length <= max || max < 2) return series;
+  const k = Math.ceil(series.length / max);
+  const out: T[] = [];
+  for (let i = 0; i < series.length; i += k) out.push(series[i]);
+  if (out[out.length - 1] !== series[series.length - 1]) out.push(series[series.length - 1]);
+  return out;
+};
+
+// Samples with start <= frame_id <= end, plus one neighbour either side so lines reach the edges
+export const sliceFrames = <T extends { frame_id: number }>(series: T[], start: number, end: number): T[] => {
+  let i = 0;
+  while (i < series.length && series[i].frame_id < start) i++;
+  let j = i;
+  while (j < series.length && series[j].frame_id <= end) j++;
+  return series.slice(Math.max(0, i - 1), Math.min(series.length, j + 1));
+};
+
+export type Peak = { index: number; value: number; prominence: number };
+
+// Local maxima that stand out by at least `minProminence` and are at least
+// `minDistance` samples apart (the more prominent one wins)
+export function findPeaks(values: number[], minProminence: number, minDistance: number): Peak[] {
+  const candidates: Peak[] = [];
+  for (let i = 1; i < values.length - 1; i++) {
+    const v = values[i];
+    if (!(v > values[i - 1] && v >= values[i + 1])) continue;
+
+    // Prominence: height above the higher of the two lowest points reached
+    // before the signal climbs above this peak on either side
+    let leftMin = v;
+    for (let j = i - 1; j >= 0 && values[j] <= v; j--) leftMin = Math.min(leftMin, values[j]);
+    let rightMin = v;
+    for (let j = i + 1; j < values.length && values[j] <= v; j++) rightMin = Math.min(rightMin, values[j]);
+    const prominence = v - Math.max(leftMin, rightMin);
+    if (prominence >= minProminence) candidates.push({ index: i, value: v, prominence });
+  }
+
+  const kept: Peak[] = [];
+  for (const p of candidates.slice().sort((a, b) => b.prominence - a.prominence)) {
+    if (kept.every(k => Math.abs(k.index - p.index) >= minDistance)) kept.push(p);
+  }
+  return kept.sort((a, b) => a.index - b.index);
+}
@@ -0,0 +1,25 @@
+// Manual team corrections per match, kept in localStorage next to fe:pending-jobs.
+// object_id -> team_id, where 0 means "no team" (e.g. a misdetected steward).
+
+export type TeamOverrides = Record<number, number>;
+
+const overridesKey = (matchId: number) => `fe:team-overrides:${matchId}`;
+
+export function loadOverrides(matchId: number): TeamOverrides {
+  try { return JSON.parse(localStorage.getItem(overridesKey(matchId)) || "{}"); } catch { return {}; }
+}
+export function saveOverrides(matchId: number, overrides: TeamOverrides) {
+  if (Object.keys(overrides).length) localStorage.setItem(overridesKey(matchId), JSON.stringify(overrides));
+  else localStorage.removeItem(overridesKey(matchId));
+}
+
+// Backend assignment with manual overrides applied on top
+export function applyOverrides(tracks: { object_id: number; team_id: number }[], overrides: TeamOverrides) {
+  const map: Record<number, number> = {};
+  tracks.forEach(t => { map[t.object_id] = t.team_id; });
+  for (const [id, team] of Object.entries(overrides)) {
+    if (team) map[Number(id)] = team;
+    else delete map[Number(id)];
+  }
+  return map;
+}
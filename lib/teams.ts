@@ -0,0 +1,5 @@
+// Team colours shared by the video overlay, radar, charts and tables
+export const TEAM_COLORS: Record<number, { stroke: string; fill: string }> = {
+  1: { stroke: "rgba(220,38,38,0.9)",  fill: "rgba(220, 38, 38, 0.65)" }, // red-600
+  2: { stroke: "rgba(37,99,235,0.9)",  fill: "rgba(37,99,235,0.65)" }, // blue-600
+};
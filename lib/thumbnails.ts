@@ -0,0 +1,122 @@
+// Crops player thumbnails out of the match video using a hidden <video> of the
+// same source, one seek at a time so the visible player is never disturbed.
+// Also grabs whole-frame stills for the match library.
+
+export type Box = { x1: number; y1: number; x2: number; y2: number };
+
+export type Thumbnailer = {
+  capture: (time: number, box: Box, width: number, height: number) => Promise<HTMLCanvasElement>;
+  still: (time: number, width: number, height: number) => Promise<HTMLCanvasElement>; // whole frame, centre-cropped
+  duration: () => Promise<number>;
+  dispose: () => void;
+};
+
+export function createThumbnailer(src: string): Thumbnailer {
+  const video = document.createElement("video");
+  video.muted = true;
+  video.preload = "auto";
+  video.src = src;
+  let queue: Promise<unknown> = Promise.resolve();
+  let disposed = false;
+
+  const once = (event: string) => new Promise<void>((resolve, reject) => {
+    const ok = () => { cleanup(); resolve(); };
+    const fail = () => { cleanup(); reject(new Error("Video failed to load")); };
+    const cleanup = () => {
+      video.removeEventListener(event, ok);
+      video.removeEventListener("error", fail);
+    };
+    video.addEventListener(event, ok);
+    video.addEventListener("error", fail);
+  });
+  const ready = video.readyState >= 1 ? Promise.resolve() : once("loadedmetadata");
+
+  const seek = async (time: number) => {
+    await ready;
+    if (disposed) throw new Error("Thumbnailer disposed");
+    const seeked = once("seeked");
+    video.currentTime = Math.min(time, video.duration || time);
+    await seeked;
+  };
+
+  const draw = (sx: number, sy: number, sw: number, sh: number, width: number, height: number) => {
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    canvas.getContext("2d")?.drawImage(video, sx, sy, sw, sh, 0, 0, width, height);
+    return canvas;
+  };
+
+  const grab = async (time: number, box: Box, width: number, height: number) => {
+    await seek(time);
+
+    // Pad the box and keep the thumbnail's aspect ratio
+    const padX = (box.x2 - box.x1) * 0.15;
+    const padY = (box.y2 - box.y1) * 0.1;
+    let sw = box.x2 - box.x1 + padX * 2;
+    let sh = box.y2 - box.y1 + padY * 2;
+    if (sw / sh < width / height) sw = sh * (width / height); else sh = sw * (height / width);
+    return draw((box.x1 + box.x2) / 2 - sw / 2, (box.y1 + box.y2) / 2 - sh / 2, sw, sh, width, height);
+  };
+
+  const grabStill = async (time: number, width: number, height: number) => {
+    await seek(time);
+    const vw = video.videoWidth;
+    const vh = video.videoHeight;
+    const sw = Math.min(vw, vh * (width / height));
+    const sh = Math.min(vh, vw * (height / width));
+    return draw((vw - sw) / 2, (vh - sh) / 2, sw, sh, width, height);
+  };
+
+  const enqueue = (fn: () => Promise<HTMLCanvasElement>) => {
+    const job = queue.then(fn);
+    queue = job.catch(() => undefined);
+    return job;
+  };
+
+  return {
+    capture: (time, box, width, height) => enqueue(() => grab(time, box, width, height)),
+    still: (time, width, height) => enqueue(() => grabStill(time, width, height)),
+    duration: () => ready.then(() => video.duration || 0),
+    dispose: () => {
+      disposed = true;
+      video.removeAttribute("src");
+      video.load();
+    },
+  };
+}
+
+// Library stills: one per video source and size for the whole session, captured
+// one video at a time so a page of matches doesn't open dozens of decoders.
+// A video that never loads or seeks gives up after a while so the rest can go on.
+const STILL_AT = 0.1; // fraction of the video, past any pre-match black
+const STILL_MAX_S = 30;
+const STILL_TIMEOUT_MS = 15_000;
+const stills = new Map<string, Promise<HTMLCanvasElement>>();
+let stillQueue: Promise<unknown> = Promise.resolve();
+
+export function videoStill(src: string, width: number, height: number): Promise<HTMLCanvasElement> {
+  const key = `${src}|${width}x${height}`;
+  let still = stills.get(key);
+  if (!still) {
+    still = stillQueue.then(() => {
+      const thumbnailer = createThumbnailer(src);
+      const capture = thumbnailer.duration()
+        .then(duration => thumbnailer.still(Math.min(STILL_MAX_S, STILL_AT * duration), width, height));
+      capture.catch(() => undefined); // settles after a timeout, if ever
+      let timer = 0;
+      const timeout = new Promise<never>((_, reject) => {
+        timer = window.setTimeout(() => reject(new Error("Timed out loading the video")), STILL_TIMEOUT_MS);
+      });
+      return Promise.race([capture, timeout]).finally(() => {
+        clearTimeout(timer);
+        thumbnailer.dispose();
+      });
+    });
+    stillQueue = still.catch(() => undefined);
+    // Let a later render try again after a failure
+    still.catch(() => stills.delete(key));
+    stills.set(key, still);
+  }
+  return still;
+}
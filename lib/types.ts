@@ -0,0 +1,87 @@
+// Shared request/response shapes for the fan-engage API.
+
+// Backend's view of a match's processing; older backends leave it out
+export type MatchStatus = "uploaded" | "processing" | "ready" | "failed";
+
+// fps/frame_offset map video time to pipeline frame ids; older matches omit them,
+// and the pitch dimensions (metres) too
+export type Match = {
+  id: number;
+  title: string;
+  video_url: string;
+  fps?: number | null;
+  frame_offset?: number | null;
+  pitch_length?: number | null;
+  pitch_width?: number | null;
+  created_at?: string | null; // ISO timestamp of the upload
+  duration_s?: number | null;
+  status?: MatchStatus | null;
+};
+
+export type Detection = {
+  frame_id: number;
+  filename: string;
+  class_name: string;
+  conf: number;
+  x1: number; y1: number; x2: number; y2: number;
+  object_id: number | null;
+};
+
+export type Track = { match_id: number; object_id: number; n_samples: number; team_id: number };
+
+export type HomographyKeypoint = { name: string; x: number; y: number };
+
+// H maps image pixels -> pitch metres for every frame in [frame_start, frame_end]
+export type HomographySegment = {
+  frame_start: number;
+  frame_end: number;
+  H: number[][];
+  keypoints_img: HomographyKeypoint[];
+};
+
+export type PossessionFrame = {
+  frame_id: number;
+  team: number | null;
+  time_s: number;
+};
+
+export type PossessionData = {
+  series: PossessionFrame[];
+};
+
+export type ControlZoneFrame = {
+  frame_id: number;
+  time_s: number;
+  team1_area_pct: number;
+  team2_area_pct: number;
+};
+
+export type ControlZoneData = {
+  series: ControlZoneFrame[];
+};
+
+export type MomentumFrame = {
+  frame_id: number;
+  time_s: number;
+  team1_momentum: number;
+  team2_momentum: number;
+};
+
+export type MomentumData = {
+  series: MomentumFrame[];
+};
+
+export type JobState = "queued" | "started" | "deferred" | "scheduled" | "finished" | "failed" | "stopped" | "canceled";
+
+export type JobStatus = {
+  job_id: string;
+  status: JobState;
+  progress?: number;
+  note?: string;
+  exc?: string;
+  enqueued_at?: string | null; // ISO timestamps
+  started_at?: string | null;
+  ended_at?: string | null;
+};
+
+export type EnqueuedJob = { job_id: string };
@@ -0,0 +1,73 @@
+// The upload queue's retry rules for an item whose file is already uploaded
+// and whose enqueue keeps failing. Browser globals are stubbed and timers are
+// mocked, so the backoff runs instantly. Run with `npm test`.
+import assert from "node:assert/strict";
+import { after, before, mock, test } from "node:test";
+import { DEFAULT_PARAMS } from "./presets";
+import type { UploadItem } from "./uploadQueue";
+
+const MAX_ATTEMPTS = 5; // as in lib/uploadQueue
+const MAX_DELAY_MS = 60000;
+
+const storage = new Map<string, string>();
+const requests: string[] = [];
+
+before(() => {
+  Object.assign(globalThis, {
+    localStorage: {
+      getItem: (k: string) => storage.get(k) ?? null,
+      setItem: (k: string, v: string) => { storage.set(k, v); },
+    },
+    window: { addEventListener: () => {}, dispatchEvent: () => true },
+    navigator: {}, // no Web Locks: items without an owner are taken over right away
+    fetch: async (url: string) => {
+      requests.push(url);
+      return new Response(JSON.stringify({ detail: "Queue is full" }), { status: 503 });
+    },
+  });
+  mock.timers.enable({ apis: ["setTimeout"] });
+});
+
+after(() => mock.timers.reset());
+
+// Lets the pending fetch and its follow-up updates run
+const flush = async () => {
+  for (let i = 0; i < 10; i++) await new Promise(resolve => setImmediate(resolve));
+};
+
+test("a failing enqueue backs off exponentially and then fails", async () => {
+  const uploaded: UploadItem = {
+    id: "up-1",
+    title: "Cup final",
+    file_name: "final.mp4",
+    size: 100,
+    last_modified: 0,
+    status: "enqueuing", // the tab closed mid-request
+    loaded: 100,
+    speed: 0,
+    attempts: 3, // spent on the upload; the tab that takes over starts again
+    match_id: 7,
+    params: DEFAULT_PARAMS,
+  };
+  storage.set("fe:upload-queue", JSON.stringify([uploaded]));
+
+  const { getUploadQueue } = await import("./uploadQueue");
+  const queue = getUploadQueue();
+  const item = () => queue.items().find(it => it.id === uploaded.id)!;
+
+  // Only the timers are mocked, so each delay is read off retry_at as it is set
+  const delays: number[] = [];
+  for (let i = 0; i < MAX_ATTEMPTS * 2 && item().status !== "failed"; i++) {
+    await flush();
+    if (item().status !== "waiting") continue;
+    delays.push(item().retry_at! - Date.now());
+    mock.timers.tick(MAX_DELAY_MS * 1.2);
+  }
+
+  assert.equal(item().status, "failed");
+  assert.equal(item().error, "Queue is full");
+  assert.equal(requests.length, MAX_ATTEMPTS);
+  assert.ok(requests.every(url => url.startsWith("/jobs/pipeline?match_id=7")));
+  assert.equal(delays.length, MAX_ATTEMPTS - 1);
+  delays.slice(1).forEach((d, i) => assert.ok(d > delays[i], `delay ${i + 2} (${d} ms) grows from ${delays[i]} ms`));
+});
@@ -0,0 +1,321 @@
+// Browser-wide upload manager. Files upload one at a time with byte progress;
+// network and server errors are retried with exponential backoff, and every
+// finished upload is handed to the pipeline and saved with the pending jobs.
+// The queue outlives client-side navigation (every internal link is a next/link).
+// A reload or closed tab loses the files, so the page asks before unloading while
+// uploads are pending, and unfinished ones come back as "interrupted" until the
+// file is re-selected. Each tab runs only its own items and holds a Web Lock for
+// as long as it is open; another tab takes over the unfinished items once that
+// lock frees up, and every tab merges its own items into the shared list.
+import * as api from "./api";
+import { upsertJob } from "./jobs";
+import { DEFAULT_PARAMS, type PipelineParams } from "./presets";
+
+export type UploadStatus =
+  | "queued"
+  | "uploading"
+  | "waiting" // backing off before the next attempt
+  | "enqueuing"
+  | "done"
+  | "failed"
+  | "canceled"
+  | "interrupted";
+
+export type UploadItem = {
+  id: string;
+  title: string;
+  file_name: string;
+  size: number;
+  last_modified: number;
+  status: UploadStatus;
+  loaded: number;
+  speed: number; // bytes per second, smoothed
+  attempts: number;
+  retry_at?: number; // epoch ms of the next automatic attempt
+  error?: string;
+  match_id?: number; // set once uploaded, so a failed enqueue never re-uploads
+  job_id?: string;
+  params: PipelineParams;
+  owner?: string; // tab that runs the item; unset on items saved before tabs shared the queue
+};
+
+export type UploadQueue = {
+  items: () => UploadItem[];
+  subscribe: (listener: (items: UploadItem[]) => void) => () => void;
+  add: (entries: { file: File; title: string }[], params: PipelineParams) => void;
+  cancel: (id: string) => void;
+  retry: (id: string) => void;
+  remove: (id: string) => void;
+  reattach: (id: string, file: File) => boolean;
+  canRetry: (id: string) => boolean; // false once the file is lost and nothing was uploaded
+  ownedHere: (id: string) => boolean; // false while another open tab runs the item
+};
+
+const QUEUE_KEY = "fe:upload-queue";
+const OWNER_LOCK = "fe:upload-queue:"; // + tab id, held until the tab closes
+const TAB_ID = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+const MAX_ATTEMPTS = 5;
+const BASE_DELAY_MS = 2000;
+const MAX_DELAY_MS = 60000;
+
+// Network drops, timeouts, rate limits and server errors are worth another try
+const retryable = (e: unknown) =>
+  e instanceof api.ApiError && (e.status === 0 || e.status === 408 || e.status === 429 || e.status >= 500);
+
+const isAbort = (e: unknown) => e instanceof DOMException && e.name === "AbortError";
+
+const backoff = (attempts: number) =>
+  Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (attempts - 1)) * (0.8 + Math.random() * 0.4);
+
+const settled = (it: UploadItem) =>
+  it.status === "done" || it.status === "failed" || it.status === "canceled" || it.status === "interrupted";
+
+const mine = (it: UploadItem) => it.owner === TAB_ID;
+
+function readItems(): UploadItem[] {
+  let items: UploadItem[] = [];
+  try { items = JSON.parse(localStorage.getItem(QUEUE_KEY) || "[]"); } catch { /* start empty */ }
+  return items.map(it => ({ ...it, params: it.params ?? DEFAULT_PARAMS })); // saved before presets existed
+}
+
+// Whatever was in flight lost its file with the closed tab; uploaded-but-not-enqueued items can still finish
+const adopt = (it: UploadItem): UploadItem =>
+  it.match_id !== undefined
+    ? { ...it, owner: TAB_ID, status: "queued", attempts: 0 }
+    : { ...it, owner: TAB_ID, status: "interrupted", loaded: 0, speed: 0 };
+
+function createUploadQueue(): UploadQueue {
+  let items = readItems();
+  const files = new Map<string, File>();
+  const listeners = new Set<(items: UploadItem[]) => void>();
+  const timers = new Map<string, ReturnType<typeof setTimeout>>();
+  const removed = new Set<string>();
+  const saved = new Set<string>(); // ids this tab has seen in storage
+  const watched = new Set<string>();
+  let active: { id: string; controller: AbortController } | null = null;
+
+  const emit = () => listeners.forEach(l => l(items));
+
+  // This tab's items come from memory and everyone else's from storage. One of
+  // ours that was saved and has since gone from storage was removed in another tab.
+  const merge = (stored: UploadItem[]) => {
+    const ours = new Map(items.filter(mine).map(it => [it.id, it]));
+    const known = new Set(stored.map(it => it.id));
+    const merged = stored.filter(it => !removed.has(it.id)).map(it => ours.get(it.id) ?? it);
+    const added = Array.from(ours.values()).filter(it => !known.has(it.id) && !saved.has(it.id));
+    known.forEach(id => saved.add(id));
+    return [...merged, ...added];
+  };
+  const persist = () => {
+    items = merge(readItems());
+    localStorage.setItem(QUEUE_KEY, JSON.stringify(items));
+    items.forEach(it => saved.add(it.id));
+  };
+
+  // Progress ticks only notify; status changes are also written to storage
+  const update = (id: string, patch: Partial<UploadItem>, save = true) => {
+    items = items.map(it => (it.id === id ? { ...it, ...patch } : it));
+    if (save) persist();
+    emit();
+  };
+  const get = (id: string) => items.find(it => it.id === id);
+
+  const enqueue = async (item: UploadItem) => {
+    // Counted like upload attempts, so a failing enqueue backs off and gives up too
+    update(item.id, { status: "enqueuing", attempts: item.attempts + 1, error: undefined });
+    const { job_id } = await api.enqueuePipeline(item.match_id!, { conf_thres: item.params.conf_thres });
+    // Cancelled or removed while the request was in flight: stop the job it started
+    if (get(item.id)?.status !== "enqueuing") {
+      api.cancelJob(job_id).catch(() => undefined);
+      return;
+    }
+    upsertJob({ job_id, match_id: item.match_id!, title: item.title, created_at: Date.now(), params: item.params });
+    files.delete(item.id);
+    update(item.id, { status: "done", job_id, speed: 0 });
+  };
+
+  const upload = async (item: UploadItem, signal: AbortSignal) => {
+    const form = new FormData();
+    form.append("title", item.title);
+    form.append("file", files.get(item.id)!);
+
+    let lastT = Date.now();
+    let lastLoaded = 0;
+    let speed = 0;
+    update(item.id, { status: "uploading", loaded: 0, speed: 0, attempts: item.attempts + 1, error: undefined });
+    const match = await api.uploadVideo(form, {
+      signal,
+      onProgress: loaded => {
+        const now = Date.now();
+        if (now - lastT >= 250) {
+          const instant = ((loaded - lastLoaded) / (now - lastT)) * 1000;
+          speed = speed ? speed * 0.7 + instant * 0.3 : instant;
+          lastT = now;
+          lastLoaded = loaded;
+        }
+        update(item.id, { loaded, speed }, false);
+      },
+    });
+    // The enqueue that follows gets its own attempts
+    update(item.id, { match_id: match.id, loaded: item.size, attempts: 0 });
+  };
+
+  const pump = async () => {
+    if (active) return;
+    const item = items.find(it => mine(it) && it.status === "queued");
+    if (!item) return;
+    const controller = new AbortController();
+    active = { id: item.id, controller };
+    try {
+      if (item.match_id === undefined) await upload(item, controller.signal);
+      await enqueue(get(item.id)!);
+    } catch (e) {
+      const current = get(item.id);
+      if (!current || current.status === "canceled") {
+        // cancelled or removed meanwhile
+      } else if (isAbort(e)) {
+        update(item.id, { status: "canceled", speed: 0 });
+      } else if (retryable(e) && current.attempts < MAX_ATTEMPTS) {
+        const delay = backoff(current.attempts);
+        update(item.id, { status: "waiting", speed: 0, retry_at: Date.now() + delay, error: (e as Error).message });
+        timers.set(item.id, setTimeout(() => {
+          timers.delete(item.id);
+          if (get(item.id)?.status === "waiting") update(item.id, { status: "queued", retry_at: undefined });
+          pump();
+        }, delay));
+      } else {
+        update(item.id, { status: "failed", speed: 0, error: e instanceof Error ? e.message : "Upload failed" });
+      }
+    } finally {
+      active = null;
+      pump();
+    }
+  };
+
+  const clearTimer = (id: string) => {
+    clearTimeout(timers.get(id));
+    timers.delete(id);
+  };
+
+  // Takes over an owner's unfinished items; read fresh, as another tab may have got there first
+  const recover = (owner: string | undefined) => {
+    items = merge(readItems());
+    const ids = new Set(items.filter(it => it.owner === owner && !settled(it)).map(it => it.id));
+    if (!ids.size) return;
+    items = items.map(it => (ids.has(it.id) ? adopt(it) : it));
+    persist();
+    emit();
+    pump();
+  };
+
+  // Each owner's lock is granted once its tab has closed. Without Web Locks
+  // there is no telling whether another tab is alive, so everything is taken.
+  const watchOwners = () => {
+    const owners = new Set(items.filter(it => !mine(it) && !settled(it)).map(it => it.owner));
+    owners.forEach(owner => {
+      if (owner === undefined || !navigator.locks) return recover(owner);
+      if (watched.has(owner)) return;
+      watched.add(owner);
+      navigator.locks.request(OWNER_LOCK + owner, async () => {
+        watched.delete(owner);
+        recover(owner);
+      });
+    });
+  };
+
+  navigator.locks?.request(OWNER_LOCK + TAB_ID, () => new Promise<never>(() => {}));
+  items.forEach(it => saved.add(it.id));
+  watchOwners();
+
+  // Other tabs' items and status changes
+  window.addEventListener("storage", e => {
+    if (e.key !== QUEUE_KEY) return;
+    items = merge(readItems());
+    emit();
+    if (navigator.locks) watchOwners();
+  });
+
+  // Files still waiting to upload can't survive an unload
+  window.addEventListener("beforeunload", e => {
+    if (!items.some(it => mine(it) && it.match_id === undefined && (it.status === "queued" || it.status === "uploading" || it.status === "waiting"))) return;
+    e.preventDefault();
+    e.returnValue = "";
+  });
+
+  return {
+    items: () => items,
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+    add: (entries, params) => {
+      const added = entries.map(({ file, title }) => {
+        const id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+        files.set(id, file);
+        return {
+          id,
+          title: title || file.name,
+          file_name: file.name,
+          size: file.size,
+          last_modified: file.lastModified,
+          status: "queued" as const,
+          loaded: 0,
+          speed: 0,
+          attempts: 0,
+          params,
+          owner: TAB_ID,
+        };
+      });
+      items = [...items, ...added];
+      persist();
+      emit();
+      pump();
+    },
+    cancel: id => {
+      clearTimer(id);
+      if (active?.id === id) active.controller.abort();
+      update(id, { status: "canceled", speed: 0, retry_at: undefined });
+    },
+    ownedHere: id => {
+      const item = get(id);
+      return !!item && (mine(item) || settled(item));
+    },
+    canRetry: id => {
+      const item = get(id);
+      return !!item && (item.match_id !== undefined || files.has(id));
+    },
+    retry: id => {
+      const item = get(id);
+      if (!item || (item.match_id === undefined && !files.has(id))) return;
+      clearTimer(id);
+      update(id, { status: "queued", owner: TAB_ID, attempts: 0, error: undefined, retry_at: undefined });
+      pump();
+    },
+    remove: id => {
+      clearTimer(id);
+      if (active?.id === id) active.controller.abort();
+      files.delete(id);
+      removed.add(id);
+      items = items.filter(it => it.id !== id);
+      persist();
+      emit();
+    },
+    // Only the same file (name, size, modification time) can resume an interrupted upload
+    reattach: (id, file) => {
+      const item = get(id);
+      if (!item || file.name !== item.file_name || file.size !== item.size || file.lastModified !== item.last_modified) return false;
+      files.set(id, file);
+      update(id, { status: "queued", owner: TAB_ID, attempts: 0, loaded: 0, error: undefined });
+      pump();
+      return true;
+    },
+  };
+}
+
+let queue: UploadQueue | null = null;
+
+// One queue per tab, created on first use in the browser
+export function getUploadQueue(): UploadQueue {
+  if (!queue) queue = createUploadQueue();
+  return queue;
+}
@@ -0,0 +1,43 @@
+// One backend source on a page: its data plus loading, error and retry state.
+// Changing the key (e.g. navigating to another match) drops the old data and
+// ignores responses still in flight for it; a null key waits without loading.
+import { useEffect, useRef, useState } from "react";
+
+export type Source<T> = {
+  data: T;
+  loading: boolean;
+  error: Error | null;
+  retry: () => void;
+  set: (data: T) => void; // replace after a local action, e.g. re-running team assignment
+};
+
+type State<T> = { data: T; loading: boolean; error: Error | null };
+
+export function useSource<T>(key: string | number | null, load: () => Promise<T>, empty: T): Source<T> {
+  const [state, setState] = useState<State<T>>({ data: empty, loading: key !== null, error: null });
+  const [attempt, setAttempt] = useState(0);
+  const loadedKey = useRef<string | number | null>(null);
+  const loadRef = useRef(load);
+  loadRef.current = load;
+
+  useEffect(() => {
+    if (key === null) return;
+    let live = true;
+    // A retry keeps whatever arrived before; a new key starts empty
+    const fresh = loadedKey.current !== key;
+    loadedKey.current = key;
+    setState(s => ({ data: fresh ? empty : s.data, loading: true, error: null }));
+    loadRef.current()
+      .then(data => { if (live) setState({ data, loading: false, error: null }); })
+      .catch(e => {
+        if (live) setState(s => ({ ...s, loading: false, error: e instanceof Error ? e : new Error(String(e)) }));
+      });
+    return () => { live = false; };
+  }, [key, attempt]); // `empty` is only read when the key changes
+
+  return {
+    ...state,
+    retry: () => setAttempt(a => a + 1),
+    set: data => setState({ data, loading: false, error: null }),
+  };
+}
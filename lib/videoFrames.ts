@@ -0,0 +1,45 @@
+// Drive overlay rendering from decoded video frames rather than `timeupdate`,
+// which only fires a few times a second.
+
+export const DEFAULT_FPS = 25;
+
+// Frame k is presented at (k - offset) / fps; the epsilon absorbs float error in mediaTime
+export const frameAtTime = (t: number, fps: number, offset = 0) => offset + Math.floor(t * fps + 1e-3);
+export const timeAtFrame = (frame: number, fps: number, offset = 0) => (frame - offset) / fps;
+
+// Calls `onFrame` with the media time of every presented frame. Uses
+// requestVideoFrameCallback where available, else polls currentTime on rAF.
+// Returns an unsubscribe function.
+export function subscribeVideoFrames(video: HTMLVideoElement, onFrame: (mediaTime: number) => void): () => void {
+  let stopped = false;
+
+  if (typeof video.requestVideoFrameCallback === "function") {
+    let handle = 0;
+    const tick: VideoFrameRequestCallback = (_now, meta) => {
+      if (stopped) return;
+      onFrame(meta.mediaTime);
+      handle = video.requestVideoFrameCallback(tick);
+    };
+    handle = video.requestVideoFrameCallback(tick);
+    return () => {
+      stopped = true;
+      video.cancelVideoFrameCallback(handle);
+    };
+  }
+
+  let handle = 0;
+  let last = -1;
+  const tick = () => {
+    if (stopped) return;
+    if (video.currentTime !== last) {
+      last = video.currentTime;
+      onFrame(last);
+    }
+    handle = requestAnimationFrame(tick);
+  };
+  handle = requestAnimationFrame(tick);
+  return () => {
+    stopped = true;
+    cancelAnimationFrame(handle);
+  };
+}
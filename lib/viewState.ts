@@ -0,0 +1,45 @@
+// Match page view state carried in the URL query, so a moment can be reloaded
+// or shared: `?t=1234.5&layers=pitch,teams&focus=17`. Missing parameters keep
+// the page defaults; `layers=` with no value switches every layer off.
+import type { ParsedUrlQuery } from "querystring";
+
+export type Layer = "detections" | "teams" | "pitch";
+
+export type ViewState = {
+  t: number | null; // video time, seconds
+  layers: Record<Layer, boolean>;
+  focus: number | null; // selected object_id
+};
+
+export const LAYERS: Layer[] = ["detections", "teams", "pitch"];
+export const DEFAULT_LAYERS: Record<Layer, boolean> = { detections: true, teams: true, pitch: false };
+
+const first = (v: string | string[] | undefined) => (Array.isArray(v) ? v[0] : v);
+
+export function parseViewState(query: ParsedUrlQuery): ViewState {
+  const t = Number(first(query.t));
+  const focus = first(query.focus);
+  const layers = first(query.layers);
+  const listed = layers === undefined ? null : layers.split(",").map(s => s.trim());
+  return {
+    t: first(query.t) !== undefined && Number.isFinite(t) && t >= 0 ? t : null,
+    layers: listed ? { detections: listed.includes("detections"), teams: listed.includes("teams"), pitch: listed.includes("pitch") } : DEFAULT_LAYERS,
+    focus: focus !== undefined && /^\d+$/.test(focus) ? Number(focus) : null,
+  };
+}
+
+// Only what differs from a fresh page load goes into the query
+function viewStateQuery(state: ViewState): Record<string, string> {
+  const query: Record<string, string> = {};
+  if (state.t !== null && state.t > 0) query.t = String(Math.round(state.t * 10) / 10);
+  if (LAYERS.some(l => state.layers[l] !== DEFAULT_LAYERS[l])) query.layers = LAYERS.filter(l => state.layers[l]).join(",");
+  if (state.focus !== null) query.focus = String(state.focus);
+  return query;
+}
+
+// Values are digits, dots, letters and commas, so they go in unescaped and the
+// link stays readable (URLSearchParams would turn "," into "%2C")
+export function viewStatePath(matchId: number, state: ViewState): string {
+  const qs = Object.entries(viewStateQuery(state)).map(([k, v]) => `${k}=${v}`).join("&");
+  return `/match/${matchId}${qs ? `?${qs}` : ""}`;
+}
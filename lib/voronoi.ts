@@ -0,0 +1,63 @@
+// Exact Voronoi cells for a handful of sites, clipped to a width x height
+// rectangle. Each cell is the rectangle cut by the perpendicular bisector with
+// every other site: O(n^2) half-plane clips, which is nothing for 22 players.
+
+export type Point = [number, number];
+export type Site = { x: number; y: number; team: number };
+export type VoronoiCell = { site: Site; polygon: Point[]; area: number };
+
+// Keep the part of `poly` where a*x + b*y <= c (Sutherland–Hodgman, one edge)
+const clipHalfPlane = (poly: Point[], a: number, b: number, c: number): Point[] => {
+  const out: Point[] = [];
+  for (let i = 0; i < poly.length; i++) {
+    const p = poly[i];
+    const q = poly[(i + 1) % poly.length];
+    const dp = a * p[0] + b * p[1] - c;
+    const dq = a * q[0] + b * q[1] - c;
+    if (dp <= 0) out.push(p);
+    if ((dp < 0 && dq > 0) || (dp > 0 && dq < 0)) {
+      const k = dp / (dp - dq);
+      out.push([p[0] + (q[0] - p[0]) * k, p[1] + (q[1] - p[1]) * k]);
+    }
+  }
+  return out;
+};
+
+export const polygonArea = (poly: Point[]) => {
+  let sum = 0;
+  for (let i = 0; i < poly.length; i++) {
+    const [x1, y1] = poly[i];
+    const [x2, y2] = poly[(i + 1) % poly.length];
+    sum += x1 * y2 - x2 * y1;
+  }
+  return Math.abs(sum) / 2;
+};
+
+export function voronoiCells(sites: Site[], width: number, height: number): VoronoiCell[] {
+  const bounds: Point[] = [[0, 0], [width, 0], [width, height], [0, height]];
+  return sites.map((s, i) => {
+    let poly = bounds;
+    for (let j = 0; j < sites.length && poly.length; j++) {
+      if (j === i) continue;
+      const o = sites[j];
+      const a = o.x - s.x;
+      const b = o.y - s.y;
+      if (a * a + b * b < 1e-12) {
+        // coincident sites: the first one owns the cell
+        if (j < i) poly = [];
+        continue;
+      }
+      // points closer to s than o: (p - mid) . (o - s) <= 0
+      const c = (o.x * o.x + o.y * o.y - s.x * s.x - s.y * s.y) / 2;
+      poly = clipHalfPlane(poly, a, b, c);
+    }
+    return { site: s, polygon: poly, area: poly.length >= 3 ? polygonArea(poly) : 0 };
+  });
+}
+
+// Controlled area per team in the same units as the cells (m² for pitch metres)
+export function teamAreas(cells: VoronoiCell[]): Record<number, number> {
+  const areas: Record<number, number> = {};
+  for (const c of cells) areas[c.site.team] = (areas[c.site.team] || 0) + c.area;
+  return areas;
+}
@@ -0,0 +1,85 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { handleMockRequest, mockJobStatus } from "../../../lib/mock/backend";
+
+// Uploads can be several GB; stream them instead of letting Next buffer the body.
+// Job event streams end after the handler returns, which Next would flag as stalled.
+export const config = { api: { bodyParser: false, responseLimit: false, externalResolver: true } };
+
+const HEAD_LIMIT = 64 * 1024;
+
+// Pull plain text fields out of a multipart body. Only the head is kept: the form
+// puts `title` before the file, and the file bytes themselves are discarded.
+async function readFormFields(req: NextApiRequest): Promise<Record<string, string>> {
+  let head = "";
+  for await (const chunk of req) {
+    if (head.length < HEAD_LIMIT) head += chunk.toString("latin1");
+  }
+  const fields: Record<string, string> = {};
+  const re = /Content-Disposition: form-data; name="([^"]+)"\r\n\r\n([^\r]*)\r\n/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(head))) fields[m[1]] = Buffer.from(m[2], "latin1").toString("utf8");
+  return fields;
+}
+
+async function readJsonBody(req: NextApiRequest): Promise<Record<string, string>> {
+  let text = "";
+  for await (const chunk of req) text += chunk.toString("utf8");
+  try { return JSON.parse(text) || {}; } catch { return {}; }
+}
+
+const EVENT_TICK_MS = 500;
+const KEEPALIVE_MS = 15000;
+const SETTLED = ["finished", "failed", "stopped", "canceled"];
+
+// GET /jobs/{id}/events: a "status" event on every change until the job settles.
+// MOCK_SSE=0 answers 404 instead, to exercise the client's polling fallback.
+function streamJobEvents(req: NextApiRequest, res: NextApiResponse, jobId: string) {
+  if (process.env.MOCK_SSE === "0" || !mockJobStatus(jobId)) {
+    res.status(404).json({ detail: "Job events not available" });
+    return;
+  }
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform", // no-transform keeps compression from buffering events
+    Connection: "keep-alive",
+  });
+  res.write("retry: 3000\n\n");
+
+  let last = "";
+  let quietSince = Date.now();
+  const tick = () => {
+    const status = mockJobStatus(jobId);
+    const data = JSON.stringify(status);
+    if (data !== last) {
+      res.write(`event: status\ndata: ${data}\n\n`);
+      last = data;
+      quietSince = Date.now();
+    } else if (Date.now() - quietSince >= KEEPALIVE_MS) {
+      res.write(": keepalive\n\n");
+      quietSince = Date.now();
+    }
+    if (!status || SETTLED.includes(status.status)) close();
+  };
+  const timer = setInterval(tick, EVENT_TICK_MS);
+  const close = () => {
+    clearInterval(timer);
+    res.end();
+  };
+  req.on("close", () => clearInterval(timer));
+  tick();
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const path = ([] as string[]).concat(req.query.path || []);
+  const query: Record<string, string> = {};
+  for (const [k, v] of Object.entries(req.query)) {
+    if (k !== "path" && typeof v === "string") query[k] = v;
+  }
+  if (req.method === "GET" && path[0] === "jobs" && path[2] === "events") return streamJobEvents(req, res, path[1]);
+
+  const body = req.method === "POST" ? await readFormFields(req) : req.method === "PATCH" ? await readJsonBody(req) : {};
+
+  const out = handleMockRequest(req.method || "GET", path, query, body);
+  if (out.body === undefined) res.status(out.status).end();
+  else res.status(out.status).json(out.body);
+}
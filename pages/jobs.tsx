@@ -0,0 +1,13 @@
+import Link from "next/link";
+import React from "react";
+import JobsPanel from "../components/JobsPanel";
+
+export default function Jobs() {
+  return (
+    <main style={{padding:20, maxWidth: 900}}>
+      <p><Link href="/">← Matches</Link></p>
+      <h1>Pipeline Jobs</h1>
+      <JobsPanel />
+    </main>
+  );
+}
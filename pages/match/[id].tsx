@@ -1,65 +1,47 @@
+import Link from "next/link";
 import { useRouter } from "next/router";
-import React, { useEffect, useRef, useState } from "react";
-import Analytics, { PossessionData, PossessionFrame, ControlZoneData, ControlZoneFrame, MomentumData, MomentumFrame } from "../../components/Analytics";
-
-type Match = { id:number; title:string; video_url:string };
-type Detection = {
-  frame_id: number;
-  filename: string;
-  class_name: string;
-  conf: number;
-  x1: number; y1: number; x2: number; y2: number;
-  object_id: number | null;
-};
-type Track = { match_id:number; object_id:number; n_samples:number; team_id:number };
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import Analytics from "../../components/Analytics";
+import CalibrationEditor from "../../components/CalibrationEditor";
+import ClipExporter from "../../components/ClipExporter";
+import DataExport from "../../components/DataExport";
+import EventTimeline from "../../components/EventTimeline";
+import PlayerMetrics from "../../components/PlayerMetrics";
+import PossessionRibbon, { type RibbonMarker } from "../../components/PossessionRibbon";
+import SourceStatus from "../../components/SourceStatus";
+import TeamEditor from "../../components/TeamEditor";
+import TrackInfo from "../../components/TrackInfo";
+import * as api from "../../lib/api";
+import { loadCalibration, mergeSegments, saveCalibration } from "../../lib/calibration";
+import { exportSnapshot } from "../../lib/clipExport";
+import { downloadFile } from "../../lib/dataExport";
+import { buildDetectionStore } from "../../lib/detectionStore";
+import { fileSlug, formatClock } from "../../lib/format";
+import { canvasPoint, hitTest, type HitTarget } from "../../lib/hitTest";
+import { ALL_EVENTS, EVENT_COLORS, EVENT_LEAD_S, filterEvents, type EventFilter, type MatchEvent } from "../../lib/matchEvents";
+import { computeMetricsInWorker, deriveEventsInWorker } from "../../lib/metricsClient";
+import type { MetricsResult } from "../../lib/playerMetrics";
+import { DEFAULT_FPS, frameAtTime, subscribeVideoFrames, timeAtFrame } from "../../lib/videoFrames";
+import { createImageProjector } from "../../lib/homography";
+import { buildHomographyTimeline, timelineOptions, type FrameCalibration } from "../../lib/homographyTimeline";
+import type { RadarFrame } from "../../lib/radar";
+import { loadJobs } from "../../lib/jobs";
+import { describeParams, loadMatchParams, presetName } from "../../lib/presets";
+import { PITCH_LIMITS, loadPitchOverride, matchPitch, pitchMarkings, pitchModel, savePitchOverride, type PitchDimensions } from "../../lib/pitch";
+import { sampleAt } from "../../lib/series";
+import { applyOverrides, loadOverrides, saveOverrides, type TeamOverrides } from "../../lib/teamOverrides";
+import { TEAM_COLORS } from "../../lib/teams";
+import { createRadarClient, type RadarClient } from "../../lib/radarClient";
+import { DEFAULT_LAYERS, parseViewState, viewStatePath, type ViewState } from "../../lib/viewState";
+import { useSource } from "../../lib/useSource";
+import type { VoronoiCell } from "../../lib/voronoi";
+import type { ControlZoneData, Detection, HomographySegment, Match, MomentumData, PossessionData, Track } from "../../lib/types";
 
-const TEAM_COLORS: Record<number, { stroke: string; fill: string }> = {
-  1: { stroke: "rgba(220,38,38,0.9)",  fill: "rgba(220, 38, 38, 0.65)" }, // red-600
-  2: { stroke: "rgba(37,99,235,0.9)",  fill: "rgba(37,99,235,0.65)" }, // blue-600
-};
 const TEAM_ZONES: Record<number, { fill: string }> = {
   1: { fill: "rgba(255, 0, 0, 0.2)" }, // red-600
   2: { fill: "rgba(37,99,235,0.2)" }, // blue-600
 };
 const TRAIL_WINDOW = 20;
-const PITCH_M = 120;
-const PITCH_N = 70;
-
-// Canonical 2D pitch coordinates in meters
-const CANONICAL_PITCH_POINTS = {
-  corner_top_left: [0.0, 0.0],
-  left_penalty_box_top_left: [0.0, PITCH_N*0.21],
-  left_six_box_top_left: [0.0, PITCH_N*0.35],
-  left_six_box_bottom_left: [0.0, PITCH_N*0.65],
-  left_penalty_box_bottom_left: [0.0, PITCH_N*0.79],
-  corner_bottom_left: [0.0, PITCH_N],
-  left_six_box_top_right: [5.5, PITCH_N*0.35],
-  left_six_box_bottom_right: [5.5, PITCH_N*0.65],
-  left_penalty_spot: [11.0, PITCH_N/2.0],
-  left_penalty_box_top_right: [20, PITCH_N*0.21],
-  left_penalty_box_center_top: [20, PITCH_N*0.35],
-  left_penalty_box_center_bottom: [20, PITCH_N*0.65],
-  left_penalty_box_bottom_right: [20, PITCH_N*0.79],
-  center_top: [PITCH_M/2.0, 0.0],
-  center_circle_top: [PITCH_M/2.0, PITCH_N*0.4],
-  center_circle_bottom: [PITCH_M/2.0, PITCH_N*0.6],
-  center_bottom: [PITCH_M/2.0, PITCH_N],
-  right_penalty_box_top_left: [PITCH_M-20, PITCH_N*0.21],
-  right_penalty_box_center_top: [PITCH_M-20, PITCH_N*0.35],
-  right_penalty_box_center_bottom: [PITCH_M-20, PITCH_N*0.65],
-  right_penalty_box_bottom_left: [PITCH_M-20, PITCH_N*0.79],
-  right_penalty_spot: [PITCH_M-11.0, PITCH_N/2.0],
-  right_six_box_top_left: [PITCH_M-5.5, PITCH_N*0.35],
-  right_six_box_bottom_left: [PITCH_M-5.5, PITCH_N*0.65],
-  corner_top_right: [PITCH_M, 0.0],
-  right_penalty_box_top_right: [PITCH_M, PITCH_N*0.21],
-  right_six_box_top_right: [PITCH_M, PITCH_N*0.35],
-  right_six_box_bottom_right: [PITCH_M, PITCH_N*0.65],
-  right_penalty_box_bottom_right: [PITCH_M, PITCH_N*0.79],
-  corner_bottom_right: [PITCH_M, PITCH_N],
-  center_circle_left: [PITCH_M/2.0 - PITCH_N*0.1, PITCH_N/2.0],
-  center_circle_right: [PITCH_M/2.0 + PITCH_N*0.1, PITCH_N/2.0]
-} as const;
 
 const getColorForClass = (className: string): { stroke: string; fill: string } => {
     switch (className.toLowerCase()) {
@@ -76,124 +58,147 @@ const getColorForClass = (className: string): { stroke: string; fill: string } =
     }
 };
 
-async function fetchTracks(matchId: number) {
-  const r = await fetch(`${process.env.NEXT_PUBLIC_API_BASE}/matches/${matchId}/tracks`);
-  if (!r.ok) return [] as Track[];
-  return (await r.json()) as Track[];
-}
-
-async function assignTeams(matchId: number) {
-  const r = await fetch(`${process.env.NEXT_PUBLIC_API_BASE}/teams/assign?match_id=${matchId}`, { method: "POST" });
-  return r.ok;
-}
-
-const invert3x3 = (m: number[][]): number[][] | null => {
-  const det =
-    m[0][0] * (m[1][1] * m[2][2] - m[1][2] * m[2][1]) -
-    m[0][1] * (m[1][0] * m[2][2] - m[1][2] * m[2][0]) +
-    m[0][2] * (m[1][0] * m[2][1] - m[1][1] * m[2][0]);
-
-  if (!isFinite(det) || Math.abs(det) < 1e-12) return null;
-  const invDet = 1 / det;
-
-  // Adjugate matrix (cofactor matrix transposed)
-  const adj = [
-    [
-      (m[1][1] * m[2][2] - m[1][2] * m[2][1]),
-      -(m[0][1] * m[2][2] - m[0][2] * m[2][1]),
-      (m[0][1] * m[1][2] - m[0][2] * m[1][1])
-    ],
-    [
-      -(m[1][0] * m[2][2] - m[1][2] * m[2][0]),
-      (m[0][0] * m[2][2] - m[0][2] * m[2][0]),
-      -(m[0][0] * m[1][2] - m[0][2] * m[1][0])
-    ],
-    [
-      (m[1][0] * m[2][1] - m[1][1] * m[2][0]),
-      -(m[0][0] * m[2][1] - m[0][1] * m[2][0]),
-      (m[0][0] * m[1][1] - m[0][1] * m[1][0])
-    ]
-  ];
-
-  // Multiply adjugate by 1/det
-  return adj.map(row => row.map(val => val * invDet));
-};
-
-const projectPitchToImage = (Hinv: number[][], X: number, Y: number) => {
-  // multiply [X,Y,1]^T by Hinv
-  const x = Hinv[0][0]*X + Hinv[0][1]*Y + Hinv[0][2]*1;
-  const y = Hinv[1][0]*X + Hinv[1][1]*Y + Hinv[1][2]*1;
-  const w = Hinv[2][0]*X + Hinv[2][1]*Y + Hinv[2][2]*1;
-  if (!isFinite(w) || Math.abs(w) < 1e-9) return null;
-  return { x: x / w, y: y / w }; // image pixel coords
-};
-
-// Draw the Voronoi diagram for team zones
+// Fill each player's Voronoi cell (pitch metres) in their team's zone colour
 const drawVoronoiZones = (
-  ctx: CanvasRenderingContext2D, 
-  points: Array<{ x: number, y: number, team: number }>,
-  width: number,
-  height: number,
-  pixelSize: number = 4 // Size of each pixel block for optimization
+  ctx: CanvasRenderingContext2D,
+  cells: VoronoiCell[],
+  scale: number,
+  offsetX: number,
+  offsetY: number
 ) => {
-  // Create an offscreen canvas for the Voronoi computation
-  const offscreen = document.createElement('canvas');
-  offscreen.width = Math.ceil(width / pixelSize);
-  offscreen.height = Math.ceil(height / pixelSize);
-  const offCtx = offscreen.getContext('2d');
-  if (!offCtx) return;
-
-  // For each pixel block in the grid
-  for (let px = 0; px < offscreen.width; px++) {
-    for (let py = 0; py < offscreen.height; py++) {
-      const x = px * pixelSize;
-      const y = py * pixelSize;
-      
-      // Find the closest point
-      let minDist = Infinity;
-      let closestTeam: number | undefined = undefined;
-      
-      for (const point of points) {
-        const dx = point.x - x;
-        const dy = point.y - y;
-        const dist = dx * dx + dy * dy; // Square distance is enough for comparison
-        if (dist < minDist) {
-          minDist = dist;
-          closestTeam = point.team;
-        }
-      }
-      
-      // Color the pixel block according to the closest team
-      if (closestTeam !== undefined) {
-        offCtx.fillStyle = TEAM_ZONES[closestTeam].fill;
-        offCtx.fillRect(px, py, 1, 1);
-      }
-    }
+  ctx.save();
+  ctx.strokeStyle = "rgba(255, 255, 255, 0.25)";
+  ctx.lineWidth = 1;
+  for (const cell of cells) {
+    if (cell.polygon.length < 3) continue;
+    ctx.beginPath();
+    cell.polygon.forEach(([x, y], i) => {
+      const px = x * scale + offsetX;
+      const py = y * scale + offsetY;
+      if (i === 0) ctx.moveTo(px, py); else ctx.lineTo(px, py);
+    });
+    ctx.closePath();
+    ctx.fillStyle = TEAM_ZONES[cell.site.team]?.fill || "rgba(255, 255, 255, 0.1)";
+    ctx.fill();
+    ctx.stroke();
   }
-  
-  // Draw the resulting Voronoi diagram onto the main canvas
-  ctx.drawImage(offscreen, 0, 0, width, height);
+  ctx.restore();
 };
 
+// Analytics not computed yet come back 404: that's "no data", not a failure
+async function notComputed<T>(request: Promise<T>): Promise<T | null> {
+  try {
+    return await request;
+  } catch (e) {
+    if (e instanceof api.ApiError && e.status === 404) return null;
+    throw e;
+  }
+}
+
 export default function MatchPage() {
     const router = useRouter();
     const { id } = router.query;
-    const [match, setMatch] = useState<Match | null>(null);
-    const [detections, setDetections] = useState<Detection[]>([]);
+    // null until the router is ready; NaN for ids that can't exist
+    const matchId = typeof id === "string" ? (/^\d+$/.test(id) ? Number(id) : NaN) : null;
+    const sourceKey = matchId !== null && !Number.isNaN(matchId) ? matchId : null;
+    const matchSource = useSource(sourceKey, () => api.getMatch(matchId!), null as Match | null);
+    const match = matchSource.data;
+    const detectionsSource = useSource(sourceKey, () => api.getDetections(matchId!), [] as Detection[]);
+    const detections = detectionsSource.data;
+    const store = useMemo(() => buildDetectionStore(detections), [detections]);
     const videoRef = useRef<HTMLVideoElement>(null);
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const radarRef = useRef<HTMLCanvasElement>(null);
-    const [tracksMap, setTracksMap] = useState<Record<number, number>>({});
-    const [homography, setHomography] = useState<any[]>([]);
-    const [possessionData, setPossessionData] = useState<PossessionData | null>(null);
-    const [controlZoneData, setControlZoneData] = useState<ControlZoneData | null>(null);
-    const [momentumData, setMomentumData] = useState<MomentumData | null>(null);
-    const [showPitch, setShowPitch] = useState(false);
-    const [showDetections, setShowDetections] = useState(true);
-    const [showTeams, setShowTeams] = useState(true);
+    const tracksSource = useSource(sourceKey, () => api.getTracks(matchId!), [] as Track[]);
+    const tracks = tracksSource.data;
+    // Manual corrections win over the backend's automatic team assignment
+    const [overrides, setOverrides] = useState<TeamOverrides>({});
+    const tracksMap = useMemo(() => applyOverrides(tracks, overrides), [tracks, overrides]);
+    const [showTeamEditor, setShowTeamEditor] = useState(false);
+    const homographySource = useSource(sourceKey, () => api.getHomography(matchId!), [] as HomographySegment[]);
+    const backendHomography = homographySource.data;
+    // Hand-corrected segments replace the backend's over their frame range
+    const [calibration, setCalibration] = useState<HomographySegment[]>([]);
+    const [calibrating, setCalibrating] = useState(false);
+    const [draftSegment, setDraftSegment] = useState<HomographySegment | null>(null);
+    const savedHomography = useMemo(() => mergeSegments(backendHomography, calibration), [backendHomography, calibration]);
+    const homography = useMemo(
+      () => (draftSegment ? mergeSegments(savedHomography, [draftSegment]) : savedHomography),
+      [savedHomography, draftSegment]
+    );
+    const possessionSource = useSource(sourceKey, () => notComputed(api.getPossession(matchId!)), null as PossessionData | null);
+    const controlZoneSource = useSource(sourceKey, () => notComputed(api.getControlZones(matchId!)), null as ControlZoneData | null);
+    const momentumSource = useSource(sourceKey, () => notComputed(api.getMomentum(matchId!)), null as MomentumData | null);
+    const possessionData = possessionSource.data;
+    const controlZoneData = controlZoneSource.data;
+    const momentumData = momentumSource.data;
+    const [showPitch, setShowPitch] = useState(DEFAULT_LAYERS.pitch);
+    const [showDetections, setShowDetections] = useState(DEFAULT_LAYERS.detections);
+    const [showTeams, setShowTeams] = useState(DEFAULT_LAYERS.teams);
+    // Shareable view state: restored from the query once per match, then kept in it.
+    // The time is written when playback pauses or seeks, not on every frame.
+    const [viewRestored, setViewRestored] = useState<number | null>(null);
+    const [urlTime, setUrlTime] = useState<number | null>(null);
+    const pendingSeek = useRef<number | null>(null);
+    const [shareNote, setShareNote] = useState("");
     const [currentFrame, setCurrentFrame] = useState(0);
-
-    const drawRadar = (t: number, seg: any) => {
+    // Linked selection: one object_id highlighted in both the video overlay and the radar
+    const [selectedId, setSelectedId] = useState<number | null>(null);
+    const [hover, setHover] = useState<{ id: number; x: number; y: number; view: "video" | "radar" } | null>(null);
+    const hoverId = hover?.id ?? null;
+    const videoHits = useRef<HitTarget[]>([]);
+    const radarHits = useRef<HitTarget[]>([]);
+    const lastRadar = useRef<RadarFrame | null>(null);
+    const [metrics, setMetrics] = useState<MetricsResult | null>(null);
+    const [metricsLoading, setMetricsLoading] = useState(false);
+    const [metricsError, setMetricsError] = useState("");
+    const metricsAbort = useRef<AbortController | null>(null);
+    const [pitchOverride, setPitchOverride] = useState<PitchDimensions | null>(null);
+    const [processedWith, setProcessedWith] = useState<string | null>(null);
+    const pitchDims = pitchOverride || matchPitch(match);
+    const pitch = useMemo(() => pitchModel(pitchDims), [pitchDims.length, pitchDims.width]);
+    const pitchLines = useMemo(() => pitchMarkings(pitch), [pitch]);
+    const fps = match?.fps || DEFAULT_FPS;
+    const frameOffset = match?.frame_offset || 0;
+    const savedTimeline = useMemo(() => buildHomographyTimeline(savedHomography, timelineOptions(fps)), [savedHomography, fps]);
+    const timeline = useMemo(
+      () => (draftSegment ? buildHomographyTimeline(homography, timelineOptions(fps)) : savedTimeline),
+      [draftSegment, homography, savedTimeline, fps]
+    );
+    // Events scan the whole ball track, so they are derived in a worker. They follow
+    // the saved calibration, so dragging a draft keypoint doesn't re-derive them.
+    const [events, setEvents] = useState<MatchEvent[]>([]);
+    useEffect(() => {
+      const possession = possessionData?.series || [];
+      if (!possession.length && !detections.length) {
+        setEvents([]);
+        return;
+      }
+      const controller = new AbortController();
+      deriveEventsInWorker(
+        { possession, detections, homography: savedHomography, tracksMap, fps, pitch: { length: pitch.length, width: pitch.width } },
+        controller.signal
+      )
+        .then(setEvents)
+        .catch(e => {
+          if (e?.name !== "AbortError") setEvents([]);
+        });
+      return () => controller.abort();
+    }, [possessionData, detections, tracksMap, savedHomography, fps, pitch]);
+    const [eventFilter, setEventFilter] = useState<EventFilter>(ALL_EVENTS);
+    const eventMarkers = useMemo<RibbonMarker[]>(
+      () => filterEvents(events, eventFilter).map(e => ({
+        key: `${e.type}-${e.frame}`,
+        frame: e.frame,
+        seekTo: e.frame - Math.round(EVENT_LEAD_S * fps),
+        color: EVENT_COLORS[e.type],
+        title: e.label,
+      })),
+      [events, eventFilter, fps]
+    );
+
+    // Paint the latest radar result from the worker (or just the pitch when there is none)
+    const drawRadar = (result: RadarFrame | null) => {
       const canvas = radarRef.current;
       if (!canvas) return;
       const ctx = canvas.getContext("2d");
@@ -205,232 +210,189 @@ export default function MatchPage() {
       
       // Clear canvas
       ctx.clearRect(0, 0, canvas.width, canvas.height);
+      lastRadar.current = result;
+      radarHits.current = [];
 
       // Calculate scale factors to fit pitch in canvas
-      const scaleX = canvas.width / PITCH_M;
-      const scaleY = canvas.height / PITCH_N;
+      const scaleX = canvas.width / pitch.length;
+      const scaleY = canvas.height / pitch.width;
       const scale = Math.min(scaleX, scaleY);
 
       // Center the pitch in the canvas
-      const offsetX = (canvas.width - PITCH_M * scale) / 2;
-      const offsetY = (canvas.height - PITCH_N * scale) / 2;
+      const offsetX = (canvas.width - pitch.length * scale) / 2;
+      const offsetY = (canvas.height - pitch.width * scale) / 2;
+      const toCanvas = ([x, y]: [number, number]): [number, number] => [x * scale + offsetX, y * scale + offsetY];
 
       // Draw pitch lines in white
       ctx.strokeStyle = "rgba(255, 255, 255, 0.7)";
       ctx.lineWidth = 1;
       ctx.beginPath();
-
-      // Draw the connections between pitch points
-      const connections = [
-        ["corner_top_left", "left_penalty_box_top_left"],
-        ["left_penalty_box_top_left", "left_six_box_top_left"],
-        ["left_six_box_top_left", "left_six_box_bottom_left"],
-        ["left_six_box_bottom_left", "left_penalty_box_bottom_left"],
-        ["left_penalty_box_bottom_left", "corner_bottom_left"],
-        ["left_penalty_box_top_left", "left_penalty_box_top_right"],
-        ["left_six_box_top_left", "left_six_box_top_right"],
-        ["left_six_box_bottom_left", "left_six_box_bottom_right"],
-        ["left_penalty_box_bottom_left", "left_penalty_box_bottom_right"],
-        ["left_six_box_top_right", "left_six_box_bottom_right"],
-        ["left_penalty_box_top_right", "left_penalty_box_center_top"],
-        ["left_penalty_box_center_top", "left_penalty_box_center_bottom"],
-        ["left_penalty_box_center_bottom", "left_penalty_box_bottom_right"],
-        ["center_top", "center_circle_top"],
-        ["center_circle_top", "center_circle_bottom"],
-        ["center_circle_bottom", "center_bottom"],
-        ["corner_top_left", "center_top"],
-        ["corner_bottom_left", "center_bottom"],
-        ["center_top", "corner_top_right"],
-        ["center_bottom", "corner_bottom_right"],
-        ["corner_top_right", "right_penalty_box_top_right"],
-        ["right_penalty_box_top_right", "right_six_box_top_right"],
-        ["right_six_box_top_right", "right_six_box_bottom_right"],
-        ["right_six_box_bottom_right", "right_penalty_box_bottom_right"],
-        ["right_penalty_box_bottom_right", "corner_bottom_right"],
-        ["right_penalty_box_top_right", "right_penalty_box_top_left"],
-        ["right_six_box_top_right", "right_six_box_top_left"],
-        ["right_six_box_bottom_right", "right_six_box_bottom_left"],
-        ["right_penalty_box_bottom_right", "right_penalty_box_bottom_left"],
-        ["right_six_box_top_left", "right_six_box_bottom_left"],
-        ["right_penalty_box_top_left", "right_penalty_box_center_top"],
-        ["right_penalty_box_center_top", "right_penalty_box_center_bottom"],
-        ["right_penalty_box_center_bottom", "right_penalty_box_bottom_left"]
-      ];
-
-      // Draw pitch outline and lines
-      for (const [start, end] of connections) {
-        const startPoint = CANONICAL_PITCH_POINTS[start];
-        const endPoint = CANONICAL_PITCH_POINTS[end];
-        ctx.moveTo(startPoint[0] * scale + offsetX, startPoint[1] * scale + offsetY);
-        ctx.lineTo(endPoint[0] * scale + offsetX, endPoint[1] * scale + offsetY);
+      for (const [start, end] of pitch.lines) {
+        ctx.moveTo(...toCanvas(pitch.keypoints[start]));
+        ctx.lineTo(...toCanvas(pitch.keypoints[end]));
+      }
+      for (const arc of pitch.arcs) {
+        const [cx, cy] = toCanvas([arc.cx, arc.cy]);
+        ctx.moveTo(cx + arc.r * scale * Math.cos(arc.start), cy + arc.r * scale * Math.sin(arc.start));
+        ctx.arc(cx, cy, arc.r * scale, arc.start, arc.end);
+      }
+      for (const goal of pitch.goals) {
+        goal.forEach((pt, i) => (i === 0 ? ctx.moveTo(...toCanvas(pt)) : ctx.lineTo(...toCanvas(pt))));
       }
       ctx.stroke();
+      ctx.fillStyle = "rgba(255, 255, 255, 0.7)";
+      for (const spot of pitch.spots) {
+        const [sx, sy] = toCanvas(spot);
+        ctx.beginPath();
+        ctx.arc(sx, sy, 2, 0, Math.PI * 2);
+        ctx.fill();
+      }
 
-      // If we have homography and detections, plot all objects except referees
-      if (seg?.H && detections) {
-        const H = seg.H;
-        const currentDetections = detections.filter(d => 
-          d.frame_id === t && 
-          d.class_name.toLowerCase() !== 'referee'
-        );
+      if (!result || result.objects.length === 0) return;
 
-        // First, collect all player positions for Voronoi diagram
-        const playerPositions: Array<{ x: number, y: number, team: number }> = [];
-        
-        for (const d of currentDetections) {
-          if (d.class_name.toLowerCase() === 'player' && d.object_id !== null && tracksMap[d.object_id]) {
-            // Get bottom center of detection box
-            const imageX = (d.x1 + d.x2) / 2;
-            const imageY = d.y2;
-
-            // Convert from image coordinates to pitch coordinates
-            const w = H[2][0] * imageX + H[2][1] * imageY + H[2][2];
-            if (Math.abs(w) < 1e-10) continue;
-            
-            const pitchX = (H[0][0] * imageX + H[0][1] * imageY + H[0][2]) / w;
-            const pitchY = (H[1][0] * imageX + H[1][1] * imageY + H[1][2]) / w;
-
-            // Only include if within pitch bounds
-            if (pitchX >= 0 && pitchX <= PITCH_M && pitchY >= 0 && pitchY <= PITCH_N) {
-              playerPositions.push({
-                x: pitchX * scale + offsetX,
-                y: pitchY * scale + offsetY,
-                team: tracksMap[d.object_id]
-              });
-            }
-          }
-        }
+      // Zones first, then all objects except referees on top
+      if (result.cells.length > 0) {
+        drawVoronoiZones(ctx, result.cells, scale, offsetX, offsetY);
+      }
 
-        // Draw Voronoi diagram if we have players from both teams
-        if (playerPositions.length > 0) {
-          drawVoronoiZones(ctx, playerPositions, canvas.width, canvas.height);
+      for (const o of result.objects) {
+        const cx = o.x * scale + offsetX;
+        const cy = o.y * scale + offsetY;
+        const r = o.class_name.toLowerCase() === 'ball' ? 4 : 12; // smaller radius for ball
+        ctx.beginPath();
+        ctx.arc(cx, cy, r, 0, Math.PI * 2);
+
+        // Team colours for assigned players, class colours for everything else
+        const colors = o.class_name.toLowerCase() === 'player' && o.team && TEAM_COLORS[o.team]
+          ? TEAM_COLORS[o.team]
+          : getColorForClass(o.class_name);
+        ctx.fillStyle = colors.fill;
+        ctx.strokeStyle = colors.stroke;
+        ctx.fill();
+        ctx.stroke();
+
+        if (o.object_id === null) continue;
+        radarHits.current.push({ object_id: o.object_id, cx, cy, rx: r + 3, ry: r + 3 });
+        if (o.object_id === selectedId || o.object_id === hoverId) {
+          ctx.beginPath();
+          ctx.arc(cx, cy, r + 4, 0, Math.PI * 2);
+          ctx.lineWidth = o.object_id === selectedId ? 3 : 1.5;
+          ctx.strokeStyle = "#fff";
+          ctx.stroke();
+          ctx.lineWidth = 1;
         }
+      }
 
-        // Then draw all objects
-        for (const d of currentDetections) {
-          // Get bottom center of detection box
-          const imageX = (d.x1 + d.x2) / 2;
-          const imageY = d.y2;
-
-          // Convert from image coordinates to pitch coordinates using H matrix
-          const w = H[2][0] * imageX + H[2][1] * imageY + H[2][2];
-          if (Math.abs(w) < 1e-10) continue;
-          
-          const pitchX = (H[0][0] * imageX + H[0][1] * imageY + H[0][2]) / w;
-          const pitchY = (H[1][0] * imageX + H[1][1] * imageY + H[1][2]) / w;
-
-          // Only draw if the point is within pitch bounds
-          if (pitchX >= 0 && pitchX <= PITCH_M && pitchY >= 0 && pitchY <= PITCH_N) {
-            // Draw dot
-            ctx.beginPath();
-            ctx.arc(
-              pitchX * scale + offsetX,
-              pitchY * scale + offsetY,
-              d.class_name.toLowerCase() === 'ball' ? 4 : 12, // smaller radius for ball
-              0,
-              Math.PI * 2
-            );
-
-            // Set colors based on class_name and team assignment
-            if (d.class_name.toLowerCase() === 'player' && d.object_id !== null && tracksMap[d.object_id]) {
-              // Use team colors for players if team is assigned
-              const teamId = tracksMap[d.object_id];
-              const colors = TEAM_COLORS[teamId];
-              ctx.fillStyle = colors.fill;
-              ctx.strokeStyle = colors.stroke;
-            } else {
-              // Use class-based colors for other objects
-              const colors = getColorForClass(d.class_name);
-              ctx.fillStyle = colors.fill;
-              ctx.strokeStyle = colors.stroke;
-            }
+      // Locally computed controlled area, next to the backend's figure for the same moment
+      if (result.cells.length > 0) {
+        const total = pitch.length * pitch.width;
+        const backend = sampleAt(controlZoneData?.series, result.frame);
+        ctx.font = "12px sans-serif";
+        ctx.textBaseline = "top";
+        [1, 2].forEach((team, i) => {
+          const area = result.areas[team] || 0;
+          const apiPct = backend ? (team === 1 ? backend.team1_area_pct : backend.team2_area_pct) : null;
+          const text = `Team ${team}: ${Math.round(area)} m² · ${((area / total) * 100).toFixed(1)}%` +
+            (apiPct !== null ? ` (api ${apiPct.toFixed(1)}%)` : "");
+          const x = i === 0 ? offsetX + 6 : offsetX + pitch.length * scale - 6;
+          ctx.textAlign = i === 0 ? "left" : "right";
+          const w = ctx.measureText(text).width;
+          ctx.fillStyle = TEAM_COLORS[team].stroke;
+          ctx.fillRect(i === 0 ? x - 3 : x - w - 3, offsetY + 4, w + 6, 16);
+          ctx.fillStyle = "#fff";
+          ctx.fillText(text, x, offsetY + 6);
+        });
+        ctx.textAlign = "start";
+        ctx.textBaseline = "alphabetic";
+      }
+    };
 
-            ctx.fill();
-            ctx.stroke();
-          }
-        }
+    // Radar projection and zones run in a worker; results arrive asynchronously
+    const drawRadarRef = useRef(drawRadar);
+    drawRadarRef.current = drawRadar;
+    const radarClient = useRef<RadarClient | null>(null);
+
+    useEffect(() => {
+      const client = createRadarClient(frame => drawRadarRef.current(frame));
+      radarClient.current = client;
+      return () => {
+        client.dispose();
+        radarClient.current = null;
+      };
+    }, []);
+
+    useEffect(() => {
+      radarClient.current?.setTracks(tracksMap);
+    }, [tracksMap]);
+
+    const requestRadar = (t: number, H: number[][] | null) => {
+      const client = radarClient.current;
+      if (!client || !H || store.size === 0) {
+        drawRadar(null);
+        return;
       }
+      client.submit({
+        frame: t,
+        H,
+        detections: store.byFrame(t).map(d => ({
+          object_id: d.object_id,
+          class_name: d.class_name,
+          conf: d.conf,
+          x: (d.x1 + d.x2) / 2,
+          y: d.y2,
+        })),
+        pitch: pitchDims,
+      });
     };
 
+    // Browser-side state for the match; the backend sources load through useSource
     useEffect(() => {
-        if (!id) return;
-        
-        // Fetch match details
-        fetch(process.env.NEXT_PUBLIC_API_BASE + "/matches")
-            .then(r => r.json())
-            .then((rows: Match[]) => {
-                const m = rows.find(x => x.id === Number(id));
-                if (m) {
-                    setMatch(m);
-                }
-            })
-            .catch(console.error);
-
-        // Fetch detections
-        fetch(`${process.env.NEXT_PUBLIC_API_BASE}/matches/${id}/detections`)
-            .then(r => r.json())
-            .then((data: Detection[]) => {
-                setDetections(data);
-            })
-            .catch(console.error);
-
-        // Fetch team assignments
-        fetchTracks(Number(id))
-            .then(rows => {
-                const map: Record<number, number> = {};
-                rows.forEach(t => { map[t.object_id] = t.team_id; });
-                setTracksMap(map);
-            })
-            .catch(console.error);
-
-        // Fetch homography
-        fetch(`${process.env.NEXT_PUBLIC_API_BASE}/matches/${Number(id)}/homography`)
-            .then(r => r.json())
-            .then(data => {
-                if (data) setHomography(data);
-            })
-            .catch(console.error);
-
-        // Fetch possession analytics
-        fetch(`${process.env.NEXT_PUBLIC_API_BASE}/analytics/${id}/possession`)
-            .then(r => r.json())
-            .then((data: PossessionData) => {
-                setPossessionData(data);
-            })
-            .catch(console.error);
-
-        // Fetch control zone analytics
-        fetch(`${process.env.NEXT_PUBLIC_API_BASE}/analytics/${id}/control_zones`)
-            .then(r => r.json())
-            .then((data: ControlZoneData) => {
-                setControlZoneData(data);
-            })
-            .catch(console.error);
-
-        // Fetch momentum analytics
-        fetch(`${process.env.NEXT_PUBLIC_API_BASE}/analytics/${id}/momentum`)
-            .then(r => r.json())
-            .then((data: MomentumData) => {
-                setMomentumData(data);
-            })
-            .catch(console.error);
-    }, [id]);
-
-
-    const getStyledColors = (d: Detection): { stroke: string; fill: string } => {
-      if (showTeams && d.class_name.toLowerCase() === "player" && d.object_id !== null) {
-        const teamId = tracksMap[d.object_id];
+        if (sourceKey === null) return;
+        setOverrides(loadOverrides(sourceKey));
+        setCalibration(loadCalibration(sourceKey));
+        setPitchOverride(loadPitchOverride(sourceKey));
+
+        // Parameters this browser processed the match with; a job still running has none recorded yet
+        const latestJob = loadJobs().filter(j => j.match_id === sourceKey && j.params).pop();
+        const params = loadMatchParams(sourceKey) ?? latestJob?.params;
+        setProcessedWith(params ? `${presetName(params) ?? "custom settings"}: ${describeParams(params)}` : null);
+
+        const view = parseViewState(router.query);
+        setShowDetections(view.layers.detections);
+        setShowTeams(view.layers.teams);
+        setShowPitch(view.layers.pitch);
+        setSelectedId(view.focus);
+        setUrlTime(view.t);
+        pendingSeek.current = view.t; // applied once the video knows its duration
+        setViewRestored(sourceKey);
+    }, [sourceKey]);
+
+    const viewState = (t: number | null): ViewState => ({
+      t,
+      layers: { detections: showDetections, teams: showTeams, pitch: showPitch },
+      focus: selectedId,
+    });
+
+    useEffect(() => {
+      if (sourceKey === null || viewRestored !== sourceKey) return;
+      const path = viewStatePath(sourceKey, viewState(urlTime));
+      if (path === router.asPath) return;
+      // Scrubbing fires many seeks; only the last one needs to land in the history entry
+      const timer = setTimeout(() => router.replace(path, undefined, { shallow: true, scroll: false }), 300);
+      return () => clearTimeout(timer);
+    }, [sourceKey, viewRestored, urlTime, showDetections, showTeams, showPitch, selectedId]);
+
+
+    const getStyledColors = (className: string, objectId: number | null): { stroke: string; fill: string } => {
+      if (showTeams && className.toLowerCase() === "player" && objectId !== null) {
+        const teamId = tracksMap[objectId];
         if (teamId && TEAM_COLORS[teamId]) return TEAM_COLORS[teamId];
       }
-      return getColorForClass(d.class_name);
+      return getColorForClass(className);
     };
 
-    async function loadHomography() {
-      const r = await fetch(`${process.env.NEXT_PUBLIC_API_BASE}/matches/${Number(id)}/homography`);
-      if (r.ok) setHomography(await r.json());
-    }
-
-    const drawBoxes = () => {
+    // mediaTime comes from the frame callback; otherwise fall back to currentTime
+    const drawBoxes = (mediaTime?: number) => {
         const video = videoRef.current;
         const canvas = canvasRef.current;
         if (!video || !canvas) return;
@@ -440,147 +402,77 @@ export default function MatchPage() {
         canvas.width = video.clientWidth;
         canvas.height = video.clientHeight;
         ctx.clearRect(0, 0, canvas.width, canvas.height);
+        videoHits.current = [];
 
         //if (!detections || detections.length === 0) return;
 
-        const t = Math.floor(video.currentTime*25); // 25 fps frames
+        const t = frameAtTime(mediaTime ?? video.currentTime, fps, frameOffset);
         const wFactor = canvas.width / (video.videoWidth || canvas.width);
         const hFactor = canvas.height / (video.videoHeight || canvas.height);
 
-        // Find current homography segment
-        let currentSeg = null;
-        if (Array.isArray(homography) && homography.length > 0) {
-          currentSeg = homography.find((s: any) => t >= s.frame_start && t <= s.frame_end);
-        }
-        
+        // Calibration for this frame, bridged across segment boundaries and short gaps
+        const calib = timeline.at(t);
+
         // Update radar view
-        drawRadar(t, currentSeg);
+        requestRadar(t, calib.H);
 
         // Update current frame for analytics
         setCurrentFrame(t);
 
         // === pitch overlay (before boxes), if enabled ===
-        if (showPitch && Array.isArray(homography) && homography.length > 0) {
-          let seg = homography.find((s: any) => t >= s.frame_start && t <= s.frame_end);
-          if (showPitch && seg?.H?.length) {
-            ctx.save();
-            // Draw dots and labels
-            ctx.fillStyle = "rgba(182, 16, 185, 0.9)";
-            ctx.strokeStyle = "rgba(182, 16, 185, 0.9)";
-            ctx.lineWidth = 4;
-            ctx.font = "12px sans-serif";
-
-            // Project all points using homography
-            const keypoints = new Map<string, {x: number, y: number}>();
-            for (const [name, [X, Y]] of Object.entries(CANONICAL_PITCH_POINTS)) {
-              const Hinv = invert3x3(seg.H);
-              if (Hinv) {
-                const projected = projectPitchToImage(Hinv, X, Y);
-                if (projected) {
-                  keypoints.set(name, {
-                    x: projected.x * wFactor,
-                    y: projected.y * hFactor
-                  });
-                }
-              }
-            }
-
-            // Draw dots and labels first
-            for (const kp of seg.keypoints_img) {
-              const x = kp.x * wFactor;
-              const y = kp.y * hFactor;
-              ctx.beginPath();
-              ctx.arc(x, y, 3, 0, Math.PI*2);
-              ctx.fill();
-              //ctx.fillText(kp.name, x + 6, y - 6);
-            }
-
-            // Define the connections to draw
-            const connections = [
-              ["corner_top_left", "left_penalty_box_top_left"],
-              ["left_penalty_box_top_left", "left_six_box_top_left"],
-              ["left_six_box_top_left", "left_six_box_bottom_left"],
-              ["left_six_box_bottom_left", "left_penalty_box_bottom_left"],
-              ["left_penalty_box_bottom_left", "corner_bottom_left"],
-              ["left_penalty_box_top_left", "left_penalty_box_top_right"],
-              ["left_six_box_top_left", "left_six_box_top_right"],
-              ["left_six_box_bottom_left", "left_six_box_bottom_right"],
-              ["left_penalty_box_bottom_left", "left_penalty_box_bottom_right"],
-              ["left_six_box_top_right", "left_six_box_bottom_right"],
-              ["left_penalty_box_top_right", "left_penalty_box_center_top"],
-              ["left_penalty_box_center_top", "left_penalty_box_center_bottom"],
-              ["left_penalty_box_center_bottom", "left_penalty_box_bottom_right"],
-              ["center_top", "center_circle_top"],
-              ["center_circle_top", "center_circle_bottom"],
-              ["center_circle_bottom", "center_bottom"],
-              ["corner_top_left", "center_top"],
-              ["corner_bottom_left", "center_bottom"],
-              ["center_top", "corner_top_right"],
-              ["center_bottom", "corner_bottom_right"],
-              
-              ["corner_top_right", "right_penalty_box_top_right"],
-              ["right_penalty_box_top_right", "right_six_box_top_right"],
-              ["right_six_box_top_right", "right_six_box_bottom_right"],
-              ["right_six_box_bottom_right", "right_penalty_box_bottom_right"],
-              ["right_penalty_box_bottom_right", "corner_bottom_right"],
-              ["right_penalty_box_top_right", "right_penalty_box_top_left"],
-              ["right_six_box_top_right", "right_six_box_top_left"],
-              ["right_six_box_bottom_right", "right_six_box_bottom_left"],
-              ["right_penalty_box_bottom_right", "right_penalty_box_bottom_left"],
-              ["right_six_box_top_left", "right_six_box_bottom_left"],
-              ["right_penalty_box_top_left", "right_penalty_box_center_top"],
-              ["right_penalty_box_center_top", "right_penalty_box_center_bottom"],
-              ["right_penalty_box_center_bottom", "right_penalty_box_bottom_left"],
-            ];
-
-            // Draw the points
-            ctx.fillStyle = "rgba(61, 120, 105, 0.9)"; // blue color
-            for (const [name, point] of keypoints.entries()) {
-              ctx.beginPath();
-              ctx.arc(point.x, point.y, 4, 0, Math.PI * 2);
-              ctx.fill();
-              // ctx.fillText(name, point.x + 6, point.y - 6);
-            }
-
-            // Draw the connections
-            ctx.strokeStyle = "rgba(129, 251, 220, 0.9)"; // blue color
-            ctx.lineWidth = 2;
+        const projector = (showPitch || calibrating) && calib.H
+          ? createImageProjector(calib.H, { width: video.videoWidth || canvas.width, height: video.videoHeight || canvas.height })
+          : null;
+        if (projector) {
+          ctx.save();
+          // Keypoints the calibration was fitted on
+          ctx.fillStyle = "rgba(182, 16, 185, 0.9)";
+          for (const kp of calib.segment?.keypoints_img || []) {
             ctx.beginPath();
-            for (const [start, end] of connections) {
-              const startPoint = keypoints.get(start);
-              const endPoint = keypoints.get(end);
-              if (startPoint && endPoint) {
-                ctx.moveTo(startPoint.x, startPoint.y);
-                ctx.lineTo(endPoint.x, endPoint.y);
-              }
-            }
-            ctx.stroke();
-            
-            ctx.restore();
+            ctx.arc(kp.x * wFactor, kp.y * hFactor, 3, 0, Math.PI * 2);
+            ctx.fill();
+          }
+
+          // Model keypoints projected back into the frame
+          ctx.fillStyle = "rgba(61, 120, 105, 0.9)";
+          for (const point of Object.values(pitch.keypoints)) {
+            const p = projector.point(point);
+            if (!p) continue;
+            ctx.beginPath();
+            ctx.arc(p[0] * wFactor, p[1] * hFactor, 4, 0, Math.PI * 2);
+            ctx.fill();
+          }
+
+          // Lines, circles, arcs and goals, cut where they leave the frame or pass behind the camera
+          ctx.strokeStyle = "rgba(129, 251, 220, 0.9)";
+          ctx.lineWidth = 2;
+          ctx.beginPath();
+          for (const line of projector.polylines(pitchLines)) {
+            line.forEach(([x, y], i) => (i === 0 ? ctx.moveTo(x * wFactor, y * hFactor) : ctx.lineTo(x * wFactor, y * hFactor)));
           }
+          ctx.stroke();
+
+          ctx.restore();
         }
 
-        if (!showDetections || !detections || detections.length === 0) return;
+        if (!showDetections || store.size === 0) return;
 
         // --- draw trails (look back a small window) ---
         const byId: Record<string, { x: number; y: number; frame: number }[]> = {};
-        for (let f = Math.max(0, t - TRAIL_WINDOW); f <= t; f++) {
-            const dets = detections.filter(d => d.frame_id === f && d.object_id !== null);
-            dets.forEach(d => {
-                const id = String(d.object_id);
-                const cx = ((d.x1 + d.x2) / 2) * wFactor;
-                const cy = ((d.y1 + d.y2) / 2) * hFactor;
-                if (!byId[id]) byId[id] = [];
-                byId[id].push({ x: cx, y: cy, frame: f });
-            });
+        for (const d of store.inRange(t - TRAIL_WINDOW, t)) {
+            if (d.object_id === null) continue;
+            const id = String(d.object_id);
+            const cx = ((d.x1 + d.x2) / 2) * wFactor;
+            const cy = ((d.y1 + d.y2) / 2) * hFactor;
+            if (!byId[id]) byId[id] = [];
+            byId[id].push({ x: cx, y: cy, frame: d.frame_id });
         }
         Object.keys(byId).forEach(id => {
             const pts = byId[id];
             if (pts.length < 2) return;
-            // Find the detection for this object to get its class
-            const det = detections.find(d => d.object_id === Number(id));
-            if (!det) return;
-            const colors = det ? getStyledColors(det) : { stroke: "#60a5fa", fill: "rgba(96, 165, 250, 0.15)" };
+            const className = store.classOf(Number(id));
+            if (!className) return;
+            const colors = getStyledColors(className, Number(id));
             ctx.beginPath();
             ctx.lineWidth = 2;
             ctx.strokeStyle = colors.stroke;
@@ -590,16 +482,35 @@ export default function MatchPage() {
         });
 
         // --- draw current-frame boxes + labels ---
-        detections
-            .filter(d => d.frame_id === t)
+        store.byFrame(t)
             .forEach(d => {
                 const x = d.x1 * wFactor;
                 const y = d.y1 * hFactor;
                 const w = (d.x2 - d.x1) * wFactor;
                 const h = (d.y2 - d.y1) * hFactor;
 
-                const colors = getStyledColors(d);
+                const colors = getStyledColors(d.class_name, d.object_id);
                 ctx.lineWidth = 2;
+
+                if (d.object_id !== null) {
+                    videoHits.current.push({
+                        object_id: d.object_id,
+                        cx: x + w / 2,
+                        cy: y + h,
+                        rx: w * 0.7,
+                        ry: Math.max(h * 0.12, 6),
+                        box: { x1: x, y1: y, x2: x + w, y2: y + h },
+                    });
+                    // Selected/hovered objects get a white box around them
+                    if (d.object_id === selectedId || d.object_id === hoverId) {
+                        ctx.save();
+                        ctx.strokeStyle = "#fff";
+                        ctx.lineWidth = d.object_id === selectedId ? 2 : 1;
+                        ctx.setLineDash([4, 3]);
+                        ctx.strokeRect(x - 3, y - 3, w + 6, h + 6);
+                        ctx.restore();
+                    }
+                }
                 
                 if (d.class_name.toLowerCase() === 'ball') {
                     // Draw downward-pointing triangle
@@ -654,34 +565,290 @@ export default function MatchPage() {
     };
 
 
-    // Removed handleRunDetection as it's now handled in useEffect
+    // The frame loop outlives renders, so it always calls the latest drawBoxes
+    const drawRef = useRef(drawBoxes);
+    drawRef.current = drawBoxes;
+    // While a clip records, the exporter draws each frame right before copying it
+    const recordingClip = useRef(false);
+
+    useEffect(() => {
+      const video = videoRef.current;
+      if (!video) return;
+      return subscribeVideoFrames(video, mediaTime => {
+        if (!recordingClip.current) drawRef.current(mediaTime);
+      });
+    }, [match]);
+
+    // Redraw the paused frame when data, layer toggles or the selection change
+    useEffect(() => {
+      drawRef.current();
+      drawRadarRef.current(lastRadar.current);
+    }, [store, tracksMap, timeline, pitch, showPitch, calibrating, showDetections, showTeams, fps, frameOffset, selectedId, hoverId]);
+
+    useEffect(() => {
+      const onKey = (e: KeyboardEvent) => { if (e.key === "Escape") setSelectedId(null); };
+      window.addEventListener("keydown", onKey);
+      return () => window.removeEventListener("keydown", onKey);
+    }, []);
+
+    // Pointer handling for both views. Empty clicks on the video don't clear the
+    // selection, so pressing the native controls keeps the pinned player.
+    const pointerHandlers = (view: "video" | "radar") => {
+      const canvasFor = () => (view === "video" ? canvasRef.current : radarRef.current);
+      const hitsFor = () => (view === "video" ? videoHits.current : radarHits.current);
+      const pick = (e: React.MouseEvent) => {
+        const canvas = canvasFor();
+        if (!canvas) return null;
+        const p = canvasPoint(canvas, e);
+        return hitTest(hitsFor(), p.x, p.y);
+      };
+      return {
+        onMouseMove: (e: React.MouseEvent<HTMLElement>) => {
+          const id = pick(e);
+          const rect = e.currentTarget.getBoundingClientRect();
+          setHover(id === null ? null : { id, x: e.clientX - rect.left, y: e.clientY - rect.top, view });
+        },
+        onMouseLeave: () => setHover(null),
+        onClick: (e: React.MouseEvent) => {
+          const id = pick(e);
+          if (id !== null) setSelectedId(prev => (prev === id ? null : id));
+          else if (view === "radar") setSelectedId(null);
+        },
+      };
+    };
+
+    const flashShareNote = (note: string) => {
+      setShareNote(note);
+      setTimeout(() => setShareNote(current => (current === note ? "" : current)), 3000);
+    };
+
+    const copyMomentLink = async () => {
+      if (sourceKey === null) return;
+      const url = window.location.origin + viewStatePath(sourceKey, viewState(videoRef.current?.currentTime ?? null));
+      try {
+        await navigator.clipboard.writeText(url);
+        flashShareNote("Link copied");
+      } catch {
+        window.prompt("Copy this link", url); // clipboard needs a secure context
+      }
+    };
+
+    const saveSnapshot = () => {
+      const video = videoRef.current;
+      const overlay = canvasRef.current;
+      if (!video || !overlay || !match) return;
+      const name = `${fileSlug(match.title)}-${formatClock(video.currentTime).replace(":", "m")}s.png`;
+      exportSnapshot(video, overlay, radarRef.current)
+        .then(blob => downloadFile(name, [blob], "image/png"))
+        .catch(e => flashShareNote(e instanceof Error ? e.message : "Snapshot failed"));
+    };
+
+    const seekToFrame = (frame: number) => {
+      const video = videoRef.current;
+      if (!video) return;
+      video.currentTime = Math.max(0, timeAtFrame(frame, fps, frameOffset));
+    };
+
+    // Whole-match physical metrics, computed on demand in a worker
+    const runMetrics = () => {
+      metricsAbort.current?.abort();
+      const controller = new AbortController();
+      metricsAbort.current = controller;
+      setMetricsLoading(true);
+      setMetricsError("");
+      computeMetricsInWorker(
+        { detections, homography: savedHomography, tracksMap, fps, pitch: pitchDims },
+        controller.signal
+      )
+        .then(setMetrics)
+        .catch(e => {
+          if (e?.name !== "AbortError") setMetricsError(e instanceof Error ? e.message : "Failed to compute metrics");
+        })
+        .finally(() => {
+          if (metricsAbort.current === controller) setMetricsLoading(false);
+        });
+    };
+
+    useEffect(() => () => metricsAbort.current?.abort(), []);
+
+    const updateOverrides = (next: TeamOverrides) => {
+      setOverrides(next);
+      saveOverrides(Number(id), next);
+    };
+
+    // team 0 forces "no team"; null hands the track back to the automatic assignment
+    const assignTeam = (objectIds: number[], team: number | null) => {
+      const next = { ...overrides };
+      for (const objectId of objectIds) {
+        if (team === null) delete next[objectId];
+        else next[objectId] = team;
+      }
+      updateOverrides(next);
+    };
+
+    const rerunTeamAssignment = async () => {
+      await api.assignTeams(matchId!);
+      tracksSource.set(await api.getTracks(matchId!));
+    };
+
+    const covers = (s: HomographySegment, frame: number) => frame >= s.frame_start && frame <= s.frame_end;
+
+    // Default calibration range: the segment in use, or the whole gap around an uncalibrated frame
+    const calibrationRange = (frame: number): [number, number] => {
+      const seg = savedHomography.find(s => covers(s, frame));
+      if (seg) return [seg.frame_start, seg.frame_end];
+      const before = savedHomography.filter(s => s.frame_end < frame).map(s => s.frame_end + 1);
+      const after = savedHomography.filter(s => s.frame_start > frame).map(s => s.frame_start - 1);
+      return [
+        Math.max(store.size ? store.firstFrame : 0, ...before),
+        Math.min(store.size ? store.lastFrame : frame, ...after),
+      ];
+    };
+
+    const updateCalibration = (next: HomographySegment[]) => {
+      setCalibration(next);
+      saveCalibration(Number(id), next);
+      setCalibrating(false);
+    };
 
+    // Custom dimensions are kept only while they are within the Laws of the Game
+    const setPitchDimension = (key: keyof PitchDimensions, value: number) => {
+      const next = { ...pitchDims, [key]: value };
+      const [min, max] = PITCH_LIMITS[key];
+      if (!(value >= min && value <= max)) return;
+      setPitchOverride(next);
+      savePitchOverride(Number(id), next);
+    };
+
+    const startCalibration = () => {
+      videoRef.current?.pause();
+      setCalibrating(true);
+    };
+
+    const trackInfoProps = (objectId: number) => {
+      const det = store.byFrame(currentFrame).find(d => d.object_id === objectId);
+      const team = tracksMap[objectId] || null;
+      return {
+        objectId,
+        team,
+        className: det?.class_name ?? store.classOf(objectId) ?? null,
+        conf: det ? det.conf : null,
+        teamColor: team ? TEAM_COLORS[team]?.stroke : undefined,
+      };
+    };
+
+    const renderHoverTip = (view: "video" | "radar") =>
+      hover && hover.view === view && (
+        <TrackInfo
+          {...trackInfoProps(hover.id)}
+          style={{ position: "absolute", left: hover.x + 12, top: hover.y + 12, pointerEvents: "none", zIndex: 2 }}
+        />
+      );
+
+    // Flags frames whose calibration is bridged or missing
+    const renderCalibrationBadge = (calib: FrameCalibration) =>
+      calib.confidence !== "good" && (
+        <div style={{
+          position: "absolute",
+          top: 8,
+          right: 8,
+          padding: "2px 8px",
+          backgroundColor: calib.confidence === "none" ? "rgba(220, 38, 38, 0.85)" : "rgba(217, 119, 6, 0.85)",
+          color: "white",
+          fontSize: "12px",
+          borderRadius: 3,
+          pointerEvents: "none"
+        }}>
+          {calib.source === "interpolated" ? "Calibration interpolated"
+            : calib.source === "held" ? "Calibration held from nearby frames"
+            : calib.source === "segment" ? "Low-confidence calibration"
+            : "No calibration"}
+        </div>
+      );
+
+  const notFound = Number.isNaN(matchId) || (matchSource.error instanceof api.ApiError && matchSource.error.status === 404);
+  if (notFound) {
+    return (
+      <main style={{padding:20}}>
+        <h2>Match not found</h2>
+        <p>There is no match #{id}. It may have been deleted, or the link is wrong.</p>
+        <Link href="/">← Back to the match library</Link>
+      </main>
+    );
+  }
+  if (matchSource.error) {
+    return (
+      <main style={{padding:20}}>
+        <h2>Could not load match #{id}</h2>
+        <p style={{ color: "#dc2626" }}>{matchSource.error.message}</p>
+        <button onClick={matchSource.retry}>Retry</button> <Link href="/">← Back to the match library</Link>
+      </main>
+    );
+  }
   if (!match) return <div style={{padding:20}}>Loading…</div>;
 
+  const frameCalibration = timeline.at(currentFrame);
+
   return (
     <main style={{padding:20}}>
-      <h2>{match.title}</h2>
+      <h2 style={{ marginBottom: processedWith ? 4 : undefined }}>{match.title}</h2>
+      {processedWith && <div style={{ marginBottom: 8, fontSize: 12, color: "#666" }}>Processed with {processedWith}</div>}
+      <SourceStatus
+        sources={[
+          { label: "Detections", ...detectionsSource, empty: !detections.length },
+          { label: "Tracks", ...tracksSource, empty: !tracks.length },
+          { label: "Homography", ...homographySource, empty: !backendHomography.length },
+          { label: "Possession", ...possessionSource, empty: !possessionData?.series?.length, emptyText: "not computed" },
+          { label: "Control zones", ...controlZoneSource, empty: !controlZoneData?.series?.length, emptyText: "not computed" },
+          { label: "Momentum", ...momentumSource, empty: !momentumData?.series?.length, emptyText: "not computed" },
+        ]}
+      />
       
       {/* First Row: Video and Radar */}
       <div style={{ display: "flex", gap: 20, alignItems: "flex-start", marginBottom: 20 }}>
-        <div style={{ position: "relative", width: 960, maxWidth: "100%" }}>
+        <div
+          style={{ position: "relative", width: 960, maxWidth: "100%", cursor: hover?.view === "video" ? "pointer" : undefined }}
+          {...pointerHandlers("video")}
+        >
           <video
             ref={videoRef}
             controls
             width={960}
             src={match.video_url}
-            onTimeUpdate={drawBoxes}
-            onLoadedMetadata={drawBoxes}
+            onLoadedMetadata={e => {
+              if (pendingSeek.current !== null) e.currentTarget.currentTime = Math.min(pendingSeek.current, e.currentTarget.duration || pendingSeek.current);
+              pendingSeek.current = null;
+              drawBoxes();
+            }}
+            onPause={e => setUrlTime(e.currentTarget.currentTime)}
+            onSeeked={e => { if (e.currentTarget.paused) setUrlTime(e.currentTarget.currentTime); }}
             style={{ width: "100%" }}
           />
           <canvas
             ref={canvasRef}
             style={{ position: "absolute", top: 0, left: 0, pointerEvents: "none" }}
           />
+          {calibrating && videoRef.current && (
+            <CalibrationEditor
+              videoWidth={videoRef.current.videoWidth || 1280}
+              videoHeight={videoRef.current.videoHeight || 720}
+              frame={currentFrame}
+              keypoints={pitch.keypoints}
+              seed={savedHomography.find(s => covers(s, currentFrame)) || null}
+              defaultRange={calibrationRange(currentFrame)}
+              hasManual={calibration.some(s => covers(s, currentFrame))}
+              onDraft={setDraftSegment}
+              onSave={seg => updateCalibration(mergeSegments(calibration, [seg]))}
+              onRevert={() => updateCalibration(calibration.filter(s => !covers(s, currentFrame)))}
+              onClose={() => setCalibrating(false)}
+            />
+          )}
+          {renderHoverTip("video")}
+          {!calibrating && renderCalibrationBadge(frameCalibration)}
         </div>
         <div style={{ 
           width: "960px", 
-          aspectRatio: `${PITCH_M}/${PITCH_N}`,
+          aspectRatio: `${pitch.length}/${pitch.width}`,
           backgroundColor: "#2e8b57", 
           position: "relative",
           border: "2px solid #1a512f",
@@ -689,11 +856,32 @@ export default function MatchPage() {
         }}>
           <canvas
             ref={radarRef}
-            style={{ position: "absolute", top: 0, left: 0, width: "100%", height: "100%" }}
+            style={{ position: "absolute", top: 0, left: 0, width: "100%", height: "100%", cursor: hover?.view === "radar" ? "pointer" : "default" }}
+            {...pointerHandlers("radar")}
           />
+          {renderHoverTip("radar")}
+          {renderCalibrationBadge(frameCalibration)}
         </div>
       </div>
 
+      {/* Possession timeline across the whole match */}
+      {(possessionData?.series?.length ?? 0) > 0 && (
+        <div style={{ marginBottom: 20 }}>
+          <PossessionRibbon possessionData={possessionData} currentFrame={currentFrame} onSeek={seekToFrame} markers={eventMarkers} />
+          <div style={{ marginTop: 12, width: 960, maxWidth: "100%" }}>
+            <EventTimeline
+              events={events}
+              filter={eventFilter}
+              onFilterChange={setEventFilter}
+              fps={fps}
+              frameOffset={frameOffset}
+              currentFrame={currentFrame}
+              onSeek={seekToFrame}
+            />
+          </div>
+        </div>
+      )}
+
       {/* Second Row: Controls and Analytics */}
       <div style={{ display: "flex", gap: 20, alignItems: "flex-start" }}>
         {/* Controls Section */}
@@ -703,10 +891,7 @@ export default function MatchPage() {
               <input 
                 type="checkbox" 
                 checked={showDetections} 
-                onChange={(e) => {
-                  setShowDetections(e.target.checked);
-                  drawBoxes();
-                }}
+                onChange={(e) => setShowDetections(e.target.checked)}
               />
               Show Detections
             </label>
@@ -715,10 +900,7 @@ export default function MatchPage() {
               <input 
                 type="checkbox" 
                 checked={showTeams} 
-                onChange={(e) => {
-                  setShowTeams(e.target.checked);
-                  drawBoxes();
-                }}
+                onChange={(e) => setShowTeams(e.target.checked)}
               />
               Show Teams
             </label>
@@ -727,15 +909,90 @@ export default function MatchPage() {
               <input 
                 type="checkbox" 
                 checked={showPitch} 
-                onChange={(e) => {
-                  setShowPitch(e.target.checked);
-                  drawBoxes();
-                }}
+                onChange={(e) => setShowPitch(e.target.checked)}
               />
               Show Pitch Lines
             </label>
+
+            <button onClick={calibrating ? () => setCalibrating(false) : startCalibration} style={{ padding: "4px 10px" }}>
+              {calibrating ? "Exit calibration" : "Calibrate pitch"}
+            </button>
+
+            <button onClick={copyMomentLink} style={{ padding: "4px 10px" }}>Copy link to this moment</button>
+            <button onClick={saveSnapshot} style={{ padding: "4px 10px" }}>Save snapshot (PNG)</button>
+            {shareNote && <span style={{ fontSize: "12px", color: "#666" }}>{shareNote}</span>}
+          </div>
+
+          <div style={{ display: "flex", gap: 8, alignItems: "center", marginTop: 12, fontSize: "14px" }}>
+            Pitch
+            <input
+              key={`l-${pitch.length}`}
+              type="number"
+              defaultValue={pitch.length}
+              min={PITCH_LIMITS.length[0]}
+              max={PITCH_LIMITS.length[1]}
+              step={0.5}
+              onBlur={e => setPitchDimension("length", Number(e.target.value))}
+              style={{ width: 64 }}
+            />
+            ×
+            <input
+              key={`w-${pitch.width}`}
+              type="number"
+              defaultValue={pitch.width}
+              min={PITCH_LIMITS.width[0]}
+              max={PITCH_LIMITS.width[1]}
+              step={0.5}
+              onBlur={e => setPitchDimension("width", Number(e.target.value))}
+              style={{ width: 64 }}
+            />
+            m
+            {pitchOverride ? (
+              <button
+                onClick={() => { setPitchOverride(null); savePitchOverride(Number(id), null); }}
+                style={{ padding: "2px 8px" }}
+              >
+                Use match dimensions
+              </button>
+            ) : (
+              <span style={{ color: "#666" }}>{match.pitch_length ? "(from match)" : "(default)"}</span>
+            )}
           </div>
 
+          <ClipExporter
+            videoRef={videoRef}
+            overlayRef={canvasRef}
+            radarRef={radarRef}
+            drawOverlay={mediaTime => drawRef.current(mediaTime)}
+            recordingRef={recordingClip}
+            title={match.title}
+            layers={[
+              ...(showDetections ? ["detections and trails"] : []),
+              ...(showDetections && showTeams ? ["team colours"] : []),
+              ...(showPitch ? ["pitch lines"] : []),
+            ]}
+          />
+
+          <DataExport
+            matchId={match.id}
+            title={match.title}
+            store={store}
+            tracksMap={tracksMap}
+            timeline={savedTimeline}
+            fps={fps}
+            frameOffset={frameOffset}
+            currentFrame={currentFrame}
+            possessionData={possessionData}
+            controlZoneData={controlZoneData}
+            momentumData={momentumData}
+          />
+
+          {selectedId !== null && (
+            <div style={{ marginTop: 12, display: "inline-block" }}>
+              <TrackInfo {...trackInfoProps(selectedId)} pinned onClose={() => setSelectedId(null)} />
+            </div>
+          )}
+
           {detections.length > 0 && showDetections && (
             <p style={{ marginTop: 10, color: "#666" }}>
               Loaded {detections.length} detections. Scrub the video to see overlays.
@@ -762,8 +1019,45 @@ export default function MatchPage() {
           controlZoneData={controlZoneData}
           momentumData={momentumData}
           currentFrame={currentFrame} 
+          onSeek={seekToFrame}
+        />
+      </div>
+
+      {/* Third Row: Player physical metrics */}
+      <div style={{ marginTop: 20 }}>
+        <PlayerMetrics
+          result={metrics}
+          loading={metricsLoading}
+          error={metricsError}
+          onCompute={runMetrics}
+          selectedId={selectedId}
+          onSelect={setSelectedId}
         />
       </div>
+
+      {/* Fourth Row: Manual team corrections */}
+      <div style={{ marginTop: 20 }}>
+        {showTeamEditor ? (
+          <TeamEditor
+            tracks={tracks}
+            overrides={overrides}
+            tracksMap={tracksMap}
+            store={store}
+            videoUrl={match?.video_url || ""}
+            fps={fps}
+            frameOffset={frameOffset}
+            onAssign={assignTeam}
+            onResetOverrides={() => updateOverrides({})}
+            onRerunAuto={rerunTeamAssignment}
+            selectedId={selectedId}
+            onSelect={setSelectedId}
+          />
+        ) : (
+          <button onClick={() => setShowTeamEditor(true)} disabled={!tracks.length} style={{ padding: "6px 12px" }}>
+            Edit team assignments{Object.keys(overrides).length ? ` (${Object.keys(overrides).length} manual)` : ""}
+          </button>
+        )}
+      </div>
     </main>
   );
 }